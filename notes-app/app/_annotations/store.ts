@@ -0,0 +1,149 @@
+import { createLocalStore } from "../_storage/localStore";
+
+/**
+ * The reader's own highlights and margin notes, kept in `localStorage`. Each
+ * one points at a target by id (see `annotationTargets`) and remembers the
+ * target's fingerprint, so a change to the content flags it instead of
+ * losing it.
+ */
+
+const STORAGE_KEY = "c-arrays-notes:annotations";
+const FORMAT_VERSION = 1;
+
+export type Annotation = {
+  /** The subtopic's `annotationKey`, a slash, and the target's id. */
+  target: string;
+  /** The target's fingerprint when the annotation was last saved. */
+  fingerprint: string;
+  /** The highlighted text and where it starts in the target's text. */
+  quote?: { text: string; start: number };
+  /** The margin note; empty for a bare highlight. */
+  comment: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Annotations = {
+  /** Annotation id to annotation. */
+  items: Record<string, Annotation>;
+};
+
+export type AnnotationsExport = Annotations & {
+  version: typeof FORMAT_VERSION;
+  exportedAt: string;
+};
+
+const EMPTY: Annotations = { items: {} };
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  const annotation = value as Partial<Annotation> | null;
+  return (
+    typeof annotation?.target === "string" &&
+    typeof annotation.fingerprint === "string" &&
+    typeof annotation.comment === "string" &&
+    typeof annotation.createdAt === "string" &&
+    typeof annotation.updatedAt === "string" &&
+    (annotation.quote === undefined ||
+      (typeof annotation.quote.text === "string" &&
+        typeof annotation.quote.start === "number"))
+  );
+};
+
+/** The valid entries of `value`, or undefined when it is not a map at all. */
+const validItems = (value: unknown): Annotations["items"] | undefined =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? Object.fromEntries(
+        Object.entries(value).filter((entry): entry is [string, Annotation] =>
+          isAnnotation(entry[1]),
+        ),
+      )
+    : undefined;
+
+const store = createLocalStore<Annotations>(
+  STORAGE_KEY,
+  FORMAT_VERSION,
+  (parsed) => {
+    const items = validItems((parsed as Annotations | null)?.items);
+    return items ? { items } : EMPTY;
+  },
+);
+
+export function useAnnotations(): Annotations {
+  return store.use();
+}
+
+/** Saves a new annotation and returns its id. */
+export function addAnnotation(
+  annotation: Pick<Annotation, "target" | "fingerprint" | "quote" | "comment">,
+): string {
+  const id = Date.now().toString(36) + Math.random().toString(36).slice(2);
+  const now = new Date().toISOString();
+  store.write({
+    items: {
+      ...store.get().items,
+      [id]: { ...annotation, createdAt: now, updatedAt: now },
+    },
+  });
+  return id;
+}
+
+/**
+ * Changes an annotation's note, its fingerprint to accept the content as it
+ * is now, or its target when the content moved.
+ */
+export function updateAnnotation(
+  id: string,
+  changes: Partial<Pick<Annotation, "comment" | "fingerprint" | "target">>,
+) {
+  const { items } = store.get();
+  if (!items[id]) {
+    return;
+  }
+  store.write({
+    items: {
+      ...items,
+      [id]: { ...items[id], ...changes, updatedAt: new Date().toISOString() },
+    },
+  });
+}
+
+export function removeAnnotation(id: string) {
+  const items = { ...store.get().items };
+  delete items[id];
+  store.write({ items });
+}
+
+export function exportAnnotations(): AnnotationsExport {
+  return {
+    version: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...store.get(),
+  };
+}
+
+/**
+ * Merges an export into the stored annotations, keeping the later edit when
+ * both sides have one. Returns how many annotations were added.
+ */
+export function importAnnotations(json: string): number {
+  const parsed: unknown = JSON.parse(json);
+  const data = parsed as Partial<AnnotationsExport> | null;
+  const imported = validItems(data?.items);
+  if (data?.version !== FORMAT_VERSION || !imported) {
+    throw new Error(
+      "This file is not an annotations export from these notes.",
+    );
+  }
+  const merged = { ...store.get().items };
+  let added = 0;
+  for (const [id, annotation] of Object.entries(imported)) {
+    if (!merged[id]) {
+      added += 1;
+    }
+    if (!merged[id] || annotation.updatedAt > merged[id].updatedAt) {
+      merged[id] = annotation;
+    }
+  }
+  store.write({ items: merged });
+  return added;
+}
@@ -0,0 +1,75 @@
+/**
+ * What readers can annotate on a subtopic, each under an id that survives
+ * edits to the content: its summary, each note by its `id`, and each line of
+ * each sample (and variant) by number. The id is written on the element as
+ * `data-annotation`; the fingerprint tells an annotation that its content has
+ * changed since it was written, and lets `Annotations` follow a code line
+ * that moved.
+ */
+import { fingerprint } from "../_content/fingerprint";
+import { sampleAnchor } from "../_content/navigation";
+import { slugify } from "../_content/slugify";
+import type {
+  CodeSample,
+  Course,
+  Note,
+  SampleVariant,
+  Subtopic,
+} from "../_content/types";
+
+export type AnnotationTarget = {
+  /** Names the target in the "My notes" panel, e.g. "Note 2". */
+  label: string;
+  fingerprint: string;
+};
+
+/** Prefixes a subtopic's annotations; ids are only unique within a course. */
+export const annotationKey = (course: Course, subtopic: Subtopic) =>
+  `${course.slug}/${subtopic.id}`;
+
+export const noteTarget = (note: Note) => `note/${note.id}`;
+
+/** `CodeBlock` appends `/line-<n>` for each line. */
+export const sampleTarget = (
+  subtopic: Subtopic,
+  sample: CodeSample,
+  variant?: SampleVariant,
+) =>
+  variant
+    ? `${sampleAnchor(subtopic, sample)}/${slugify(variant.name)}`
+    : sampleAnchor(subtopic, sample);
+
+export function annotationTargets(
+  subtopic: Subtopic,
+): Record<string, AnnotationTarget> {
+  const targets: Record<string, AnnotationTarget> = {
+    summary: { label: "Summary", fingerprint: fingerprint(subtopic.summary) },
+  };
+  (subtopic.notes ?? []).forEach((note, index) => {
+    targets[noteTarget(note)] = {
+      label: `Note ${index + 1}`,
+      fingerprint: fingerprint(note.text),
+    };
+  });
+  const addLines = (target: string, caption: string, content: string) =>
+    content.split("\n").forEach((line, index) => {
+      targets[`${target}/line-${index + 1}`] = {
+        label: `${caption}, line ${index + 1}`,
+        fingerprint: fingerprint(line),
+      };
+    });
+  for (const sample of subtopic.code ?? []) {
+    if (sample.variants) {
+      for (const variant of sample.variants) {
+        addLines(
+          sampleTarget(subtopic, sample, variant),
+          `${sample.caption} (${variant.name})`,
+          variant.content,
+        );
+      }
+    } else {
+      addLines(sampleTarget(subtopic, sample), sample.caption, sample.content);
+    }
+  }
+  return targets;
+}
@@ -0,0 +1,194 @@
+import {
+  courseHref,
+  getSubtopicEntries,
+  sampleAnchor,
+  subtopicHref,
+  topicHref,
+} from "../_content/navigation";
+import type {
+  CodeSample,
+  Course,
+  Exercise,
+  Note,
+  Subtopic,
+  Topic,
+} from "../_content/types";
+import {
+  API_VERSION,
+  type ApiCourseSummary,
+  type ApiError,
+  type ApiExercise,
+  type ApiNote,
+  type ApiResponse,
+  type ApiSample,
+  type ApiSubtopic,
+  type ApiTopic,
+  type ApiTopicSummary,
+} from "./schema";
+
+export const API_HREF = "/api/courses";
+
+const apiCourseHref = (course: Course) => `${API_HREF}/${course.slug}`;
+
+export const apiTopicsHref = (course: Course) =>
+  `${apiCourseHref(course)}/topics`;
+
+export const apiTopicHref = (course: Course, topic: Topic) =>
+  `${apiTopicsHref(course)}/${topic.id}`;
+
+export const topicMarkdownHref = (course: Course, topic: Topic) =>
+  `${apiTopicHref(course, topic)}/markdown`;
+
+const apiSampleHref = (course: Course, id: string) =>
+  `${apiCourseHref(course)}/samples/${id}`;
+
+export const apiResponse = <T>(data: T) =>
+  Response.json({ version: API_VERSION, data } satisfies ApiResponse<T>);
+
+/**
+ * The API routes leave `dynamicParams` on, so an unknown id reaches the
+ * handler and gets this rather than the site's HTML 404 page.
+ */
+export const apiError = (status: number, error: string) =>
+  Response.json({ version: API_VERSION, error } satisfies ApiError, {
+    status,
+  });
+
+export const toCourseSummary = (course: Course): ApiCourseSummary => ({
+  slug: course.slug,
+  title: course.title,
+  kicker: course.kicker,
+  lede: course.lede,
+  href: courseHref(course),
+  topics: apiTopicsHref(course),
+});
+
+export const toTopicSummary = (
+  course: Course,
+  topic: Topic,
+): ApiTopicSummary => ({
+  id: topic.id,
+  title: topic.title,
+  summary: topic.summary,
+  href: topicHref(course, topic),
+  api: apiTopicHref(course, topic),
+  markdown: topicMarkdownHref(course, topic),
+  subtopics: topic.subtopics.map((subtopic) => ({
+    id: subtopic.id,
+    title: subtopic.title,
+    href: subtopicHref(course, topic, subtopic),
+  })),
+});
+
+export const toSample = (
+  course: Course,
+  topic: Topic,
+  subtopic: Subtopic,
+  sample: CodeSample,
+): ApiSample => {
+  const id = sampleAnchor(subtopic, sample);
+  // Verifier settings and trace probes only matter to the build scripts.
+  return {
+    id,
+    subtopic: subtopic.id,
+    topic: topic.id,
+    href: `${subtopicHref(course, topic, subtopic)}#${id}`,
+    api: apiSampleHref(course, id),
+    caption: sample.caption,
+    language: sample.language,
+    content: sample.content,
+    standard: sample.standard,
+    highlight: sample.highlight,
+    expectedOutput: sample.expectedOutput,
+    trace: sample.trace && { steps: sample.trace.steps },
+    variants: sample.variants?.map((variant) => ({
+      name: variant.name,
+      content: variant.content,
+      highlight: variant.highlight,
+      expectedOutput: variant.expectedOutput,
+      diagnostics: variant.diagnostics,
+    })),
+  };
+};
+
+const toNote = (note: Note): ApiNote => ({
+  id: note.id,
+  text: note.text,
+  standard: note.standard,
+  question: note.question,
+});
+
+function toExercise(exercise: Exercise): ApiExercise {
+  const { prompt, explanation } = exercise;
+  switch (exercise.type) {
+    case "multiple-choice":
+      return {
+        type: exercise.type,
+        prompt,
+        explanation,
+        choices: exercise.choices,
+        answer: exercise.answer,
+      };
+    case "predict-output":
+      return {
+        type: exercise.type,
+        prompt,
+        explanation,
+        snippet: exercise.snippet,
+        answer: exercise.answer,
+      };
+    case "find-the-bug":
+      return {
+        type: exercise.type,
+        prompt,
+        explanation,
+        snippet: exercise.snippet,
+        line: exercise.line,
+      };
+  }
+}
+
+const toSubtopic = (
+  course: Course,
+  topic: Topic,
+  subtopic: Subtopic,
+): ApiSubtopic => ({
+  id: subtopic.id,
+  title: subtopic.title,
+  summary: subtopic.summary,
+  href: subtopicHref(course, topic, subtopic),
+  standard: subtopic.standard,
+  notes: subtopic.notes?.map(toNote),
+  memoryLayout: subtopic.memoryLayout && {
+    name: subtopic.memoryLayout.name,
+    type: subtopic.memoryLayout.type,
+    dimensions: subtopic.memoryLayout.dimensions,
+    pointer: subtopic.memoryLayout.pointer,
+  },
+  code: subtopic.code?.map((sample) =>
+    toSample(course, topic, subtopic, sample),
+  ),
+  exercises: subtopic.exercises?.map(toExercise),
+  seeAlso: subtopic.seeAlso,
+});
+
+/** Optional fields left undefined are dropped when the record is serialized. */
+export const toTopic = (course: Course, topic: Topic): ApiTopic => ({
+  id: topic.id,
+  title: topic.title,
+  summary: topic.summary,
+  href: topicHref(course, topic),
+  api: apiTopicHref(course, topic),
+  markdown: topicMarkdownHref(course, topic),
+  subtopics: topic.subtopics.map((subtopic) =>
+    toSubtopic(course, topic, subtopic),
+  ),
+});
+
+/** Every sample of a course, under its id. */
+export const getSamples = (course: Course): ApiSample[] =>
+  getSubtopicEntries(course).flatMap(({ topic, subtopic }) =>
+    (subtopic.code ?? []).map((sample) =>
+      toSample(course, topic, subtopic, sample),
+    ),
+  );
@@ -0,0 +1,72 @@
+import { findSubtopicById, subtopicHref } from "../_content/navigation";
+import { splitReferences } from "../_content/references";
+import type { Course, Topic } from "../_content/types";
+import { variantSample } from "../_content/variants";
+
+/** A fence longer than any backtick run in `text`, so it cannot close early. */
+const fenced = (text: string, language: string) => {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${language}\n${text}\n${fence}`;
+};
+
+const heading = (level: number, text: string) =>
+  `${"#".repeat(level)} ${text}`;
+
+/**
+ * A topic as a Markdown document: its subtopics with their summaries and
+ * notes, then every sample (each variant in turn) with what it prints.
+ * Summaries and notes are already inline Markdown; references to other
+ * subtopics become links to their pages.
+ */
+export function topicMarkdown(course: Course, topic: Topic): string {
+  const note = (text: string) =>
+    splitReferences(text)
+      .map((part) => {
+        if ("text" in part) {
+          return part.text;
+        }
+        const target = findSubtopicById(course, part.id);
+        const label = part.label ?? target?.subtopic.title ?? part.id;
+        return target ? `[${label}](${target.href})` : label;
+      })
+      .join("");
+
+  const blocks = [heading(1, topic.title), topic.summary];
+  for (const subtopic of topic.subtopics) {
+    blocks.push(
+      heading(2, subtopic.title),
+      subtopic.summary,
+      `Read online: ${subtopicHref(course, topic, subtopic)}`,
+    );
+    if (subtopic.notes) {
+      blocks.push(
+        subtopic.notes.map((each) => `- ${note(each.text)}`).join("\n"),
+      );
+    }
+    for (const sample of subtopic.code ?? []) {
+      const programs = sample.variants
+        ? sample.variants.map((variant) => ({
+            ...variantSample(sample, variant),
+            diagnostics: variant.diagnostics,
+          }))
+        : [{ ...sample, diagnostics: undefined }];
+      for (const program of programs) {
+        blocks.push(
+          heading(3, program.caption),
+          fenced(program.content, program.language),
+        );
+        if (program.diagnostics) {
+          blocks.push("Diagnostics:", fenced(program.diagnostics, "text"));
+        }
+        if (program.expectedOutput !== undefined) {
+          blocks.push("Output:", fenced(program.expectedOutput, "text"));
+        }
+      }
+    }
+  }
+  return `${blocks.join("\n\n")}\n`;
+}
@@ -0,0 +1,137 @@
+/**
+ * Wire format of the read-only content API under `/api/courses`. Every field
+ * is declared here rather than borrowed from `_content/types`, so the content
+ * model can change without changing the API; `_api/content` maps one onto
+ * the other.
+ */
+
+/**
+ * Bumped whenever a field is removed, renamed, or changes meaning; adding a
+ * field does not bump it. Every response carries it as `version`.
+ */
+export const API_VERSION = 1;
+
+export type ApiResponse<T> = {
+  version: typeof API_VERSION;
+  data: T;
+};
+
+export type ApiError = {
+  version: typeof API_VERSION;
+  error: string;
+};
+
+type Links = {
+  /** The page on the site. */
+  href: string;
+  /** This record in the API. */
+  api: string;
+};
+
+export type ApiCourseSummary = {
+  slug: string;
+  title: string;
+  kicker: string;
+  lede: string;
+  href: string;
+  /** The course's topics, as `ApiTopicSummary` records. */
+  topics: string;
+};
+
+export type ApiTopicSummary = Links & {
+  id: string;
+  title: string;
+  summary: string;
+  /** The topic rendered as Markdown. */
+  markdown: string;
+  subtopics: { id: string; title: string; href: string }[];
+};
+
+export type ApiStandard = "C89" | "C99" | "C11" | "C17" | "C23";
+
+export type ApiHighlightedLine = {
+  /** 1-based line number within `content`. */
+  line: number;
+  label?: string;
+};
+
+export type ApiTraceStep = {
+  /** The line about to run. */
+  line: number;
+  values?: Record<string, string>;
+  arrays?: Record<string, string[]>;
+  note?: string;
+};
+
+export type ApiSampleVariant = {
+  name: string;
+  content: string;
+  highlight?: ApiHighlightedLine[];
+  expectedOutput?: string;
+  diagnostics?: string;
+};
+
+/**
+ * A sample under the id of its anchor on the page, e.g.
+ * `using-sizeof-safely-length-calculation-macro`.
+ */
+export type ApiSample = Links & {
+  id: string;
+  /** The `id` of the subtopic and topic the sample belongs to. */
+  subtopic: string;
+  topic: string;
+  caption: string;
+  language: "c" | "text";
+  content: string;
+  /** The oldest standard the sample compiles under. */
+  standard?: ApiStandard;
+  highlight?: ApiHighlightedLine[];
+  expectedOutput?: string;
+  trace?: { steps: ApiTraceStep[] };
+  variants?: ApiSampleVariant[];
+};
+
+export type ApiNote = {
+  /** Unique within the subtopic. */
+  id: string;
+  text: string;
+  standard?: ApiStandard;
+  /** Set on question-and-answer notes, with `text` as the answer. */
+  question?: string;
+};
+
+export type ApiMemoryLayout = {
+  name: string;
+  type: "char" | "int" | "double";
+  dimensions: number[];
+  pointer?: string;
+};
+
+export type ApiExercise = { prompt: string; explanation: string } & (
+  | { type: "multiple-choice"; choices: string[]; answer: string }
+  | { type: "predict-output"; snippet: string; answer: string }
+  /** `line` is the 1-based line of the bug within `snippet`. */
+  | { type: "find-the-bug"; snippet: string; line: number }
+);
+
+export type ApiSubtopic = {
+  id: string;
+  title: string;
+  summary: string;
+  href: string;
+  standard?: ApiStandard;
+  notes?: ApiNote[];
+  memoryLayout?: ApiMemoryLayout;
+  code?: ApiSample[];
+  exercises?: ApiExercise[];
+  /** `id`s of related subtopics in the same course. */
+  seeAlso?: string[];
+};
+
+export type ApiTopic = Links & {
+  id: string;
+  title: string;
+  summary: string;
+  markdown: string;
+  subtopics: ApiSubtopic[];
+};
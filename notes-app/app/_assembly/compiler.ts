@@ -0,0 +1,96 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { highlightLines } from "../_content/highlight";
+import { isValidIn, sampleStandard, STD_FLAGS } from "../_content/standards";
+import type { CodeSample, CStandard, Subtopic } from "../_content/types";
+import { variantSample } from "../_content/variants";
+import {
+  type AssemblyListing,
+  type AssemblyVersion,
+  OPT_LEVELS,
+  parseAssembly,
+} from "./listing";
+
+const COMPILER = process.env.CC ?? "cc";
+const BASE_STANDARD: CStandard = "C11";
+const COMPILE_TIMEOUT_MS = 10_000;
+const SOURCE_FILE = "sample.c";
+
+/** Topic and subtopic pages render the same samples; compile each once. */
+const cache = new Map<string, AssemblyListing | undefined>();
+
+/**
+ * Compiles a C sample to assembly at every `-O` level with the local
+ * toolchain while the page is built. Returns `undefined`, and the page leaves
+ * out its Assembly tab, when the compiler is missing or rejects the sample.
+ */
+function compileAssembly(
+  sample: CodeSample,
+  standard: CStandard,
+): AssemblyListing | undefined {
+  const flags = [
+    STD_FLAGS[isValidIn(standard, BASE_STANDARD) ? BASE_STANDARD : standard],
+    // Warnings are the verifier's business.
+    "-w",
+    "-g",
+    "-S",
+  ];
+  const key = `${flags.join(" ")}\n${sample.content}`;
+  if (cache.has(key)) {
+    return cache.get(key);
+  }
+
+  const workdir = mkdtempSync(path.join(os.tmpdir(), "assembly-"));
+  let listing: AssemblyListing | undefined;
+  try {
+    writeFileSync(path.join(workdir, SOURCE_FILE), `${sample.content}\n`);
+    const entries = OPT_LEVELS.map((level) => {
+      const compiled = spawnSync(
+        COMPILER,
+        [...flags, level, SOURCE_FILE, "-o", "-"],
+        { cwd: workdir, encoding: "utf8", timeout: COMPILE_TIMEOUT_MS },
+      );
+      return compiled.status === 0
+        ? [level, parseAssembly(compiled.stdout, SOURCE_FILE)]
+        : undefined;
+    });
+    if (entries.every((entry) => entry !== undefined)) {
+      listing = Object.fromEntries(entries) as AssemblyListing;
+    }
+  } finally {
+    rmSync(workdir, { recursive: true, force: true });
+  }
+  cache.set(key, listing);
+  return listing;
+}
+
+/**
+ * Listings for a C sample, or for each of its variants that compiles; empty
+ * when there is nothing to show.
+ */
+export function sampleAssembly(
+  subtopic: Subtopic,
+  sample: CodeSample,
+): AssemblyVersion[] {
+  if (sample.language !== "c") {
+    return [];
+  }
+  const standard = sampleStandard(subtopic, sample);
+  const versions: Omit<AssemblyVersion, "lines" | "listing">[] =
+    sample.variants
+      ? sample.variants.map((variant) => ({
+          name: variant.name,
+          sample: variantSample(sample, variant),
+        }))
+      : [{ sample }];
+  return versions.flatMap((version) => {
+    const listing = compileAssembly(version.sample, standard);
+    if (!listing) {
+      return [];
+    }
+    const lines = highlightLines(version.sample.content, "c");
+    return [{ ...version, lines, listing }];
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Assembly listings shared between the build (which compiles them) and the
+ * browser (which links them to source lines). Keep this module free of Node
+ * APIs.
+ */
+import type { Token } from "../_content/highlight";
+import type { CodeSample } from "../_content/types";
+
+export const OPT_LEVELS = ["-O0", "-O1", "-O2", "-O3", "-Os"] as const;
+
+export type OptLevel = (typeof OPT_LEVELS)[number];
+
+/** What `-O2` is to the verifier: what most release builds use. */
+export const DEFAULT_OPT_LEVEL: OptLevel = "-O2";
+
+export type AsmLine = {
+  text: string;
+  /** The 1-based source line the instruction was generated for. */
+  source?: number;
+};
+
+export type AssemblyListing = Record<OptLevel, AsmLine[]>;
+
+/** A sample, or one of its variants, with its listings. */
+export type AssemblyVersion = {
+  /** The variant's name; unset for a sample without variants. */
+  name?: string;
+  sample: CodeSample;
+  /** The source's `highlightLines`, so the browser needs no highlighter. */
+  lines: Token[][];
+  listing: AssemblyListing;
+};
+
+const FILE = /^\s*\.file\s+(\d+)\s+"([^"]*)"(?:\s+"([^"]*)")?/;
+const LOC = /^\s*\.loc\s+(\d+)\s+(\d+)/;
+const LABEL = /^([.\w$@]+):/;
+const DATA = /^\s*\.(?:string|ascii|asciz)\s/;
+const SYMBOL = /\.?[A-Za-z_$][\w.$@]*/g;
+
+/** Labels the compiler made up; kept only when an instruction uses one. */
+const isLocalLabel = (name: string) => name.startsWith(".L");
+
+const indent = (text: string) => `        ${text}`;
+
+/**
+ * Filters `cc -S -g` output the way Compiler Explorer does: directives and
+ * unused local labels go, instructions stay, and each instruction is tagged
+ * with the source line from the `.loc` before it. String constants an
+ * instruction refers to are kept under their label.
+ */
+export function parseAssembly(output: string, fileName: string): AsmLine[] {
+  const mainFiles = new Set<string>();
+  let source: number | undefined;
+  const lines: (AsmLine & { label?: string; data?: boolean })[] = [];
+
+  for (const raw of output.split("\n")) {
+    const fileMatch = FILE.exec(raw);
+    if (fileMatch) {
+      const [, number, first, second] = fileMatch;
+      if ((second ?? first).endsWith(fileName)) {
+        mainFiles.add(number);
+      }
+      continue;
+    }
+    const loc = LOC.exec(raw);
+    if (loc) {
+      const line = Number(loc[2]);
+      source = mainFiles.has(loc[1]) && line > 0 ? line : undefined;
+      continue;
+    }
+    const label = LABEL.exec(raw);
+    if (label) {
+      lines.push({ text: `${label[1]}:`, label: label[1] });
+      continue;
+    }
+    if (DATA.test(raw)) {
+      lines.push({ text: indent(raw.trim().replace(/\s+/, " ")), data: true });
+      continue;
+    }
+    const instruction = raw.trim();
+    if (instruction === "" || /^[.#]/.test(instruction)) {
+      continue;
+    }
+    const [mnemonic, ...operands] = instruction.split(/\s+/);
+    const text = indent(
+      operands.length > 0
+        ? `${mnemonic.padEnd(7)} ${operands.join(" ")}`
+        : mnemonic,
+    );
+    lines.push(source === undefined ? { text } : { text, source });
+  }
+
+  const used = new Set(
+    lines
+      .filter((line) => !line.label && !line.data)
+      .flatMap((line) => line.text.match(SYMBOL) ?? []),
+  );
+  const listing: AsmLine[] = [];
+  let keeping = false;
+  for (const { label, data, ...line } of lines) {
+    if (label) {
+      keeping = !isLocalLabel(label) || used.has(label);
+    }
+    if ((label || data) && !keeping) {
+      continue;
+    }
+    listing.push(line);
+  }
+  return listing;
+}
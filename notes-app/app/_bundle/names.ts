@@ -0,0 +1,6 @@
+import { slugify } from "../_content/slugify";
+import type { CodeSample, Subtopic } from "../_content/types";
+
+/** `8-1-malloc-calloc-and-realloc-resizable-dynamic-array.c` */
+export const sampleFileName = (subtopic: Subtopic, sample: CodeSample) =>
+  `${slugify(subtopic.title)}-${slugify(sample.caption)}.c`;
@@ -0,0 +1,117 @@
+import { gzipSync } from "node:zlib";
+import type { CodeSample, Topic } from "../_content/types";
+import { expandVariants } from "../_content/variants";
+import { sampleFileName } from "./names";
+import { createTar, type TarEntry } from "./tar";
+
+type BundledSample = {
+  file: string;
+  /** Makefile target: the file name without `.c`. */
+  target: string;
+  sample: CodeSample;
+};
+
+const collectSamples = (topics: Topic[]): BundledSample[] => {
+  const seen = new Set<string>();
+  return topics.flatMap((topic) =>
+    topic.subtopics.flatMap((subtopic) =>
+      (subtopic.code ?? [])
+        .flatMap(expandVariants)
+        .filter((sample) => sample.language === "c")
+        .map((sample) => {
+          let file = sampleFileName(subtopic, sample);
+          for (let n = 2; seen.has(file); n += 1) {
+            file = sampleFileName(subtopic, sample).replace(/\.c$/, `-${n}.c`);
+          }
+          seen.add(file);
+          return { file, target: file.replace(/\.c$/, ""), sample };
+        }),
+    ),
+  );
+};
+
+/**
+ * One target per program plus `run-<target>` rules. Fragments marked
+ * `compileOnly` build to object files, and samples marked `skipRun` (deliberate
+ * undefined behavior) are left out of `run-all`.
+ */
+export function createMakefile(title: string, topics: Topic[]): string {
+  const samples = collectSamples(topics);
+  const programs = samples.filter(({ sample }) => !sample.verify?.compileOnly);
+  const objects = samples.filter(({ sample }) => sample.verify?.compileOnly);
+  const runnable = programs.filter(({ sample }) => !sample.verify?.skipRun);
+
+  const lines = [
+    `# Sample programs from "${title}".`,
+    "# make            build every program",
+    "# make run-all    build and run every program",
+    "",
+    "CC ?= cc",
+    "CFLAGS ?= -std=c11 -Wall -Wextra -O2",
+    "",
+    `PROGRAMS = ${programs.map(({ target }) => target).join(" \\\n           ")}`,
+    `OBJECTS = ${objects.map(({ target }) => `${target}.o`).join(" ")}`,
+    "",
+    ".PHONY: all run-all clean",
+    "",
+    "all: $(PROGRAMS) $(OBJECTS)",
+    "",
+  ];
+
+  for (const { file, target, sample } of samples) {
+    const flags = ["$(CFLAGS)", ...(sample.verify?.flags ?? [])].join(" ");
+    if (sample.verify) {
+      lines.push(`# ${sample.verify.reason}`);
+    }
+    if (sample.verify?.compileOnly) {
+      lines.push(`${target}.o: ${file}`, `\t$(CC) ${flags} -c -o $@ $<`, "");
+      continue;
+    }
+    lines.push(
+      `${target}: ${file}`,
+      `\t$(CC) ${flags} -o $@ $<`,
+      "",
+      `.PHONY: run-${target}`,
+      `run-${target}: ${target}`,
+      `\t@echo "== ${target}"`,
+      `\t./${target}`,
+      "",
+    );
+  }
+
+  lines.push(
+    `run-all: ${runnable.map(({ target }) => `run-${target}`).join(" \\\n         ")}`,
+    "",
+    "clean:",
+    "\trm -f $(PROGRAMS) $(OBJECTS)",
+    "",
+  );
+  return lines.join("\n");
+}
+
+/** A gzipped tarball of every C sample in `topics` plus a Makefile. */
+export function createSampleBundle(
+  directory: string,
+  title: string,
+  topics: Topic[],
+): Buffer {
+  const entries: TarEntry[] = collectSamples(topics).map(
+    ({ file, sample }) => ({
+      name: `${directory}/${file}`,
+      content: `${sample.content}\n`,
+    }),
+  );
+  entries.push({
+    name: `${directory}/Makefile`,
+    content: createMakefile(title, topics),
+  });
+  return gzipSync(createTar(entries));
+}
+
+export const bundleResponse = (archive: Buffer, filename: string) =>
+  new Response(new Uint8Array(archive), {
+    headers: {
+      "Content-Type": "application/gzip",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
@@ -0,0 +1,67 @@
+const BLOCK = 512;
+
+export type TarEntry = {
+  name: string;
+  content: string;
+  /** Octal permission bits; defaults to 0644. */
+  mode?: number;
+};
+
+const octal = (value: number, width: number) =>
+  `${value.toString(8).padStart(width - 1, "0")}\0`;
+
+/** ustar stores paths longer than 100 bytes as a directory `prefix` + name. */
+const splitPath = (path: string): [prefix: string, name: string] => {
+  if (Buffer.byteLength(path) <= 100) {
+    return ["", path];
+  }
+  const slash = path.lastIndexOf("/");
+  const prefix = path.slice(0, slash);
+  const name = path.slice(slash + 1);
+  if (
+    slash === -1 ||
+    Buffer.byteLength(prefix) > 155 ||
+    Buffer.byteLength(name) > 100
+  ) {
+    throw new Error(`Tar entry path is too long: ${path}`);
+  }
+  return [prefix, name];
+};
+
+function header(path: string, size: number, mode: number, mtime: number) {
+  const block = Buffer.alloc(BLOCK);
+  const write = (text: string, offset: number, width: number) =>
+    block.write(text, offset, width, "utf8");
+
+  const [prefix, name] = splitPath(path);
+  write(name, 0, 100);
+  write(octal(mode, 8), 100, 8);
+  write(octal(0, 8), 108, 8); // uid
+  write(octal(0, 8), 116, 8); // gid
+  write(octal(size, 12), 124, 12);
+  write(octal(mtime, 12), 136, 12);
+  write("        ", 148, 8); // checksum placeholder
+  write("0", 156, 1); // regular file
+  write("ustar\0", 257, 6);
+  write("00", 263, 2);
+  write(prefix, 345, 155);
+
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+  return block;
+}
+
+/** Writes an uncompressed POSIX ustar archive. */
+export function createTar(entries: TarEntry[], mtime = new Date()): Buffer {
+  const seconds = Math.floor(mtime.getTime() / 1000);
+  const parts: Buffer[] = [];
+  for (const entry of entries) {
+    const data = Buffer.from(entry.content, "utf8");
+    parts.push(header(entry.name, data.length, entry.mode ?? 0o644, seconds));
+    parts.push(data);
+    const padding = (BLOCK - (data.length % BLOCK)) % BLOCK;
+    parts.push(Buffer.alloc(padding));
+  }
+  parts.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(parts);
+}
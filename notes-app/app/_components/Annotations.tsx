@@ -0,0 +1,605 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  type Annotation,
+  addAnnotation,
+  exportAnnotations,
+  importAnnotations,
+  removeAnnotation,
+  updateAnnotation,
+  useAnnotations,
+} from "../_annotations/store";
+import type { AnnotationTarget } from "../_annotations/targets";
+import styles from "./Annotations.module.css";
+
+type AnnotationsProps = {
+  /** See `annotationKey` in `_annotations/targets`. */
+  annotationKey: string;
+  targets: Record<string, AnnotationTarget>;
+  children: React.ReactNode;
+};
+
+type Selected = {
+  target: string;
+  quote: { text: string; start: number };
+  /** Where the toolbar goes, relative to the annotated content. */
+  top: number;
+  left: number;
+};
+
+type Marker = {
+  target: string;
+  label: string;
+  top: number;
+  comments: string[];
+};
+
+type Status = "current" | "changed" | "gone";
+
+/** Every subtopic's highlights, painted as one `::highlight(annotation)`. */
+const highlights = new Map<string, Range[]>();
+
+function paintHighlights() {
+  if (typeof CSS !== "undefined" && "highlights" in CSS) {
+    CSS.highlights.set(
+      "annotation",
+      new Highlight(...[...highlights.values()].flat()),
+    );
+  }
+}
+
+/** The text a reader sees in `element`, leaving out hover previews. */
+function textNodes(element: Element): Text[] {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest('[role="tooltip"]')
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  const nodes: Text[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push(node as Text);
+  }
+  return nodes;
+}
+
+const visibleText = (element: Element) =>
+  textNodes(element)
+    .map((node) => node.data)
+    .join("");
+
+/** How many characters of `element`'s text come before a selection point. */
+function textOffset(element: Element, container: Node, offset: number) {
+  const before = document.createRange();
+  before.selectNodeContents(element);
+  before.setEnd(container, offset);
+  let seen = 0;
+  for (const node of textNodes(element)) {
+    if (node === container) {
+      return seen + offset;
+    }
+    if (before.comparePoint(node, node.length) !== 0) {
+      break;
+    }
+    seen += node.length;
+  }
+  return seen;
+}
+
+function textRange(element: Element, start: number, length: number) {
+  const range = document.createRange();
+  let seen = 0;
+  let started = false;
+  for (const node of textNodes(element)) {
+    if (!started && start <= seen + node.length) {
+      range.setStart(node, start - seen);
+      started = true;
+    }
+    if (started && start + length <= seen + node.length) {
+      range.setEnd(node, start + length - seen);
+      return range;
+    }
+    seen += node.length;
+  }
+  return undefined;
+}
+
+const targetElement = (root: Element, target: string) =>
+  root.querySelector(`[data-annotation="${CSS.escape(target)}"]`);
+
+const closestTarget = (node: Node) =>
+  (node instanceof Element ? node : node.parentElement)?.closest(
+    "[data-annotation]",
+  );
+
+/**
+ * Where an annotation on a code line or note belongs after its content was
+ * edited, or undefined to leave it where it is. Among the lines of the same
+ * sample, or the subtopic's notes, it looks for the one that still has the
+ * annotation's fingerprint, then for one that contains its quote, taking the
+ * nearest to where it was. Failing both, it stays where it is.
+ */
+function relocate(
+  root: Element,
+  targets: Record<string, AnnotationTarget>,
+  annotation: Annotation,
+  target: string,
+): string | undefined {
+  if (targets[target]?.fingerprint === annotation.fingerprint) {
+    return undefined;
+  }
+  const line = target.match(/^(.*\/line-)(\d+)$/);
+  if (!line && !target.startsWith("note/")) {
+    return undefined;
+  }
+  const siblings = Object.keys(targets).filter((each) =>
+    each.startsWith(line ? line[1] : "note/"),
+  );
+  const position = Number(line?.[2] ?? 0) - 1;
+  const from = siblings.includes(target) ? siblings.indexOf(target) : position;
+  const nearest = (found: string[]) =>
+    found.sort(
+      (a, b) =>
+        Math.abs(siblings.indexOf(a) - from) -
+        Math.abs(siblings.indexOf(b) - from),
+    )[0];
+  const quote = annotation.quote?.text;
+  const moved =
+    nearest(
+      siblings.filter(
+        (each) => targets[each].fingerprint === annotation.fingerprint,
+      ),
+    ) ??
+    (quote
+      ? nearest(
+          siblings.filter((each) => {
+            const node = targetElement(root, each);
+            return node !== null && visibleText(node).includes(quote);
+          }),
+        )
+      : undefined);
+  return moved === target ? undefined : moved;
+}
+
+/** The annotations under `prefix`, with their target ids without it. */
+const annotationsOf = (items: Record<string, Annotation>, prefix: string) =>
+  Object.entries(items)
+    .filter(([, annotation]) => annotation.target.startsWith(prefix))
+    .map(([id, annotation]) => ({
+      id,
+      annotation,
+      target: annotation.target.slice(prefix.length),
+    }));
+
+function download(filename: string, contents: string) {
+  const url = URL.createObjectURL(
+    new Blob([contents], { type: "application/json" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Lets readers highlight text in a subtopic's summary, notes, and code lines
+ * and write notes in the margin, all kept in this browser. Everything they
+ * wrote on the subtopic is listed under "My notes", where annotations whose
+ * content has changed since are flagged rather than dropped.
+ */
+export default function Annotations({
+  annotationKey,
+  targets,
+  children,
+}: AnnotationsProps) {
+  const { items } = useAnnotations();
+  const root = useRef<HTMLDivElement>(null);
+  const toolbar = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState<Selected>();
+  const [draft, setDraft] = useState<string>();
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  const [openMarker, setOpenMarker] = useState<string>();
+  const prefix = `${annotationKey}/`;
+
+  useEffect(() => {
+    const element = root.current;
+    if (!element) {
+      return;
+    }
+    const onSelect = (event: Event) => {
+      if (toolbar.current?.contains(event.target as Node)) {
+        return;
+      }
+      const selection = window.getSelection();
+      const range =
+        selection && !selection.isCollapsed && selection.rangeCount > 0
+          ? selection.getRangeAt(0)
+          : undefined;
+      const target = range && closestTarget(range.startContainer);
+      const id = target?.getAttribute("data-annotation");
+      if (
+        !range ||
+        !target ||
+        !id ||
+        !targets[id] ||
+        !element.contains(target) ||
+        closestTarget(range.endContainer) !== target
+      ) {
+        setSelected(undefined);
+        setDraft(undefined);
+        return;
+      }
+      const start = textOffset(target, range.startContainer, range.startOffset);
+      const end = textOffset(target, range.endContainer, range.endOffset);
+      const text = visibleText(target).slice(start, end);
+      if (text.trim() === "") {
+        return;
+      }
+      const rect = range.getBoundingClientRect();
+      const box = element.getBoundingClientRect();
+      setSelected({
+        target: id,
+        quote: { text, start },
+        top: rect.bottom - box.top + 6,
+        left: Math.max(0, rect.left - box.left),
+      });
+      setDraft(undefined);
+    };
+    element.addEventListener("mouseup", onSelect);
+    element.addEventListener("keyup", onSelect);
+    return () => {
+      element.removeEventListener("mouseup", onSelect);
+      element.removeEventListener("keyup", onSelect);
+    };
+  }, [targets]);
+
+  useEffect(() => {
+    const element = root.current;
+    if (!element) {
+      return;
+    }
+    const mine = annotationsOf(items, prefix);
+    const moves = mine.flatMap(({ id, annotation, target }) => {
+      const moved = relocate(element, targets, annotation, target);
+      return moved ? [{ id, target: prefix + moved }] : [];
+    });
+    if (moves.length > 0) {
+      // Saving them re-runs this effect with the annotations in place.
+      moves.forEach(({ id, target }) => updateAnnotation(id, { target }));
+      return;
+    }
+    highlights.set(
+      prefix,
+      mine.flatMap(({ annotation: { quote }, target }) => {
+        const node = quote && targetElement(element, target);
+        if (!quote || !node) {
+          return [];
+        }
+        // Edits elsewhere in the text move the quote; find it again.
+        const text = visibleText(node);
+        const start = text.startsWith(quote.text, quote.start)
+          ? quote.start
+          : text.indexOf(quote.text);
+        const range =
+          start >= 0 ? textRange(node, start, quote.text.length) : undefined;
+        return range ? [range] : [];
+      }),
+    );
+    paintHighlights();
+
+    const comments = new Map<string, string[]>();
+    for (const { annotation, target } of mine) {
+      if (annotation.comment) {
+        comments.set(target, [
+          ...(comments.get(target) ?? []),
+          annotation.comment,
+        ]);
+      }
+    }
+    const layout = () => {
+      const box = element.getBoundingClientRect();
+      setMarkers(
+        [...comments].flatMap(([target, texts]) => {
+          const rect = targetElement(element, target)?.getBoundingClientRect();
+          // Lines on a hidden tab have no box.
+          return rect && rect.height > 0
+            ? [
+                {
+                  target,
+                  label: `${texts.length} note(s) on ${targets[target]?.label}`,
+                  top: rect.top - box.top,
+                  comments: texts,
+                },
+              ]
+            : [];
+        }),
+      );
+    };
+    const frame = requestAnimationFrame(layout);
+    const resized = new ResizeObserver(layout);
+    resized.observe(element);
+    const toggled = new MutationObserver(layout);
+    toggled.observe(element, {
+      subtree: true,
+      attributes: true,
+      attributeFilter: ["hidden"],
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      resized.disconnect();
+      toggled.disconnect();
+      highlights.delete(prefix);
+      paintHighlights();
+    };
+  }, [items, prefix, targets]);
+
+  const save = (comment: string) => {
+    if (!selected) {
+      return;
+    }
+    addAnnotation({
+      target: prefix + selected.target,
+      fingerprint: targets[selected.target].fingerprint,
+      quote: selected.quote,
+      comment: comment.trim(),
+    });
+    setSelected(undefined);
+    setDraft(undefined);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  return (
+    <>
+      <div ref={root} className={styles.annotated}>
+        {children}
+
+        {selected && (
+          <div
+            ref={toolbar}
+            className={styles.toolbar}
+            style={{ top: selected.top, left: selected.left }}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") {
+                setSelected(undefined);
+                setDraft(undefined);
+              }
+            }}
+          >
+            {draft === undefined ? (
+              <>
+                <button type="button" onClick={() => save("")}>
+                  Highlight
+                </button>
+                <button type="button" onClick={() => setDraft("")}>
+                  Add note
+                </button>
+              </>
+            ) : (
+              <form
+                className={styles.draft}
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  save(draft);
+                }}
+              >
+                <textarea
+                  aria-label="Your note"
+                  value={draft}
+                  rows={3}
+                  autoFocus
+                  onChange={(event) => setDraft(event.target.value)}
+                />
+                <button type="submit" disabled={draft.trim() === ""}>
+                  Save note
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {markers.map((marker) => (
+          <div
+            key={marker.target}
+            className={styles.marker}
+            style={{ top: marker.top }}
+          >
+            <button
+              type="button"
+              aria-expanded={openMarker === marker.target}
+              aria-label={marker.label}
+              onClick={() =>
+                setOpenMarker(
+                  openMarker === marker.target ? undefined : marker.target,
+                )
+              }
+            >
+              ✎{marker.comments.length > 1 ? marker.comments.length : ""}
+            </button>
+            {openMarker === marker.target && (
+              <ul className={styles.margin}>
+                {marker.comments.map((comment, index) => (
+                  <li key={index}>{comment}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <MyNotes prefix={prefix} targets={targets} />
+    </>
+  );
+}
+
+function MyNotes({
+  prefix,
+  targets,
+}: {
+  prefix: string;
+  targets: Record<string, AnnotationTarget>;
+}) {
+  const { items } = useAnnotations();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string }>();
+  const [message, setMessage] = useState<string>();
+
+  const order = Object.keys(targets);
+  const position = (target: string) =>
+    order.includes(target) ? order.indexOf(target) : order.length;
+  const entries = annotationsOf(items, prefix).sort(
+    (a, b) =>
+      position(a.target) - position(b.target) ||
+      a.annotation.createdAt.localeCompare(b.annotation.createdAt),
+  );
+  const status = (annotation: Annotation, target: string): Status =>
+    !targets[target]
+      ? "gone"
+      : targets[target].fingerprint !== annotation.fingerprint
+        ? "changed"
+        : "current";
+
+  const handleImport = async (file: File) => {
+    try {
+      const added = importAnnotations(await file.text());
+      setMessage(`Imported ${added} new annotation(s).`);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  return (
+    <details className={styles.panel} open={entries.length > 0}>
+      <summary>My notes ({entries.length})</summary>
+
+      {entries.length === 0 ? (
+        <p className={styles.hint}>
+          Select text in the summary, a note, or a code line to highlight it
+          or add a note of your own. Notes stay in this browser.
+        </p>
+      ) : (
+        <ul className={styles.entries}>
+          {entries.map(({ id, annotation, target }) => {
+            const state = status(annotation, target);
+            return (
+              <li
+                key={id}
+                className={state === "current" ? undefined : styles.stale}
+              >
+                <p className={styles.where}>
+                  {targets[target]?.label ?? "Removed content"}
+                </p>
+                {annotation.quote && (
+                  <blockquote className={styles.quote}>
+                    {annotation.quote.text}
+                  </blockquote>
+                )}
+                {editing?.id === id ? (
+                  <form
+                    className={styles.draft}
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      updateAnnotation(id, { comment: editing.text.trim() });
+                      setEditing(undefined);
+                    }}
+                  >
+                    <textarea
+                      aria-label="Your note"
+                      value={editing.text}
+                      rows={3}
+                      autoFocus
+                      onChange={(event) =>
+                        setEditing({ id, text: event.target.value })
+                      }
+                    />
+                    <button type="submit">Save</button>
+                    <button type="button" onClick={() => setEditing(undefined)}>
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  annotation.comment && (
+                    <p className={styles.comment}>{annotation.comment}</p>
+                  )
+                )}
+                {state === "changed" && (
+                  <p className={styles.warning}>
+                    Possibly out of date: this has changed since you wrote
+                    your note.{" "}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateAnnotation(id, {
+                          fingerprint: targets[target].fingerprint,
+                        })
+                      }
+                    >
+                      Still accurate
+                    </button>
+                  </p>
+                )}
+                {state === "gone" && (
+                  <p className={styles.warning}>
+                    Possibly out of date: what this was attached to is no
+                    longer in the notes.
+                  </p>
+                )}
+                <div className={styles.actions}>
+                  {editing?.id !== id && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setEditing({ id, text: annotation.comment })
+                      }
+                    >
+                      {annotation.comment ? "Edit" : "Add note"}
+                    </button>
+                  )}
+                  <button type="button" onClick={() => removeAnnotation(id)}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className={styles.actions}>
+        <button
+          type="button"
+          onClick={() =>
+            download(
+              "c-arrays-annotations.json",
+              JSON.stringify(exportAnnotations(), null, 2),
+            )
+          }
+        >
+          Export all annotations
+        </button>
+        <button type="button" onClick={() => fileInput.current?.click()}>
+          Import annotations
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              handleImport(file);
+            }
+          }}
+        />
+      </div>
+      {message && (
+        <p role="status" className={styles.message}>
+          {message}
+        </p>
+      )}
+    </details>
+  );
+}
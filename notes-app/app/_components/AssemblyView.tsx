@@ -0,0 +1,125 @@
+"use client";
+
+import { useId, useState } from "react";
+import {
+  type AssemblyVersion,
+  DEFAULT_OPT_LEVEL,
+  OPT_LEVELS,
+  type OptLevel,
+} from "../_assembly/listing";
+import styles from "./AssemblyView.module.css";
+import CodeBlock from "./CodeBlock";
+import codeStyles from "./CodeBlock.module.css";
+
+type AssemblyViewProps = {
+  versions: AssemblyVersion[];
+};
+
+/** Indented, unlike labels, and not a `.string` constant. */
+const INSTRUCTION = /^\s+[^.\s]/;
+
+/** The `data-line` or `data-source` of the line under the pointer. */
+const lineAt = (target: EventTarget) => {
+  const line =
+    target instanceof Element
+      ? target.closest<HTMLElement>("[data-line], [data-source]")
+      : null;
+  const number = Number(line?.dataset.line ?? line?.dataset.source);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+/**
+ * Source beside its `cc -S` output at a chosen `-O` level, in the manner of
+ * Compiler Explorer. Pointing at a C line highlights the instructions
+ * generated for it, and pointing at an instruction highlights its line.
+ */
+export default function AssemblyView({ versions }: AssemblyViewProps) {
+  const id = useId();
+  const [level, setLevel] = useState<OptLevel>(DEFAULT_OPT_LEVEL);
+  const [version, setVersion] = useState(0);
+  const [hovered, setHovered] = useState<number>();
+  const { sample, lines: source, listing } = versions[version];
+  const lines = listing[level];
+
+  const hover = {
+    onMouseOver: (event: React.MouseEvent) => setHovered(lineAt(event.target)),
+    onMouseLeave: () => setHovered(undefined),
+  };
+
+  return (
+    <div className={styles.assembly}>
+      <div className={styles.controls}>
+        <label htmlFor={`${id}-level`}>Optimization</label>
+        <select
+          id={`${id}-level`}
+          value={level}
+          onChange={(event) => setLevel(event.target.value as OptLevel)}
+        >
+          {OPT_LEVELS.map((each) => (
+            <option key={each}>{each}</option>
+          ))}
+        </select>
+        {versions.length > 1 && (
+          <>
+            <label htmlFor={`${id}-version`}>Version</label>
+            <select
+              id={`${id}-version`}
+              value={version}
+              onChange={(event) => setVersion(Number(event.target.value))}
+            >
+              {versions.map((each, index) => (
+                <option key={each.name} value={index}>
+                  {each.name}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        <span className={styles.count}>
+          {lines.filter((line) => INSTRUCTION.test(line.text)).length}{" "}
+          instructions
+        </span>
+      </div>
+
+      <div className={styles.panes}>
+        <div className={styles.pane} {...hover}>
+          <CodeBlock
+            sample={sample}
+            lines={source}
+            linked={hovered === undefined ? [] : [hovered]}
+          />
+        </div>
+        <pre
+          className={`${codeStyles.code} ${styles.pane}`}
+          aria-label={`Assembly at ${level}`}
+          {...hover}
+        >
+          <code>
+            {lines.map((line, index) => (
+              <span
+                key={index}
+                className={[
+                  codeStyles.line,
+                  line.source !== undefined &&
+                    line.source === hovered &&
+                    codeStyles.linked,
+                ]
+                  .filter(Boolean)
+                  .join(" ")}
+                data-source={line.source}
+                title={
+                  line.source === undefined
+                    ? undefined
+                    : `Line ${line.source}`
+                }
+              >
+                {line.text}
+                {"\n"}
+              </span>
+            ))}
+          </code>
+        </pre>
+      </div>
+    </div>
+  );
+}
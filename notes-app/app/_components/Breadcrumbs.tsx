@@ -0,0 +1,30 @@
+import Link from "next/link";
+import styles from "./navigation.module.css";
+
+export type Crumb = {
+  label: string;
+  href?: string;
+};
+
+export default function Breadcrumbs({ items }: { items: Crumb[] }) {
+  return (
+    <nav aria-label="Breadcrumb" className={styles.breadcrumbs}>
+      <ol>
+        {items.map((item, index) => {
+          const isCurrent = index === items.length - 1;
+          return (
+            <li key={item.label}>
+              {item.href && !isCurrent ? (
+                <Link href={item.href}>{item.label}</Link>
+              ) : (
+                <span aria-current={isCurrent ? "page" : undefined}>
+                  {item.label}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
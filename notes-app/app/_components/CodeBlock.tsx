@@ -0,0 +1,89 @@
+import type { Token } from "../_content/highlight";
+import type { CodeSample } from "../_content/types";
+import styles from "./CodeBlock.module.css";
+
+type CodeBlockProps = {
+  sample: CodeSample;
+  /**
+   * The sample's `highlightLines`, computed on the server so that the
+   * highlighter never ships to the browser.
+   */
+  lines: Token[][];
+  /** The line a trace is paused on. */
+  activeLine?: number;
+  /** Lines a variant diff marks; see `changedLines`. */
+  removed?: number[];
+  added?: number[];
+  /** Lines tied to what the reader points at, e.g. in `AssemblyView`. */
+  linked?: number[];
+  /** Lets readers annotate each line; see `sampleTarget`. */
+  annotation?: string;
+};
+
+/** Renders a sample with build-time syntax highlighting and line numbers. */
+export default function CodeBlock({
+  sample,
+  lines,
+  activeLine,
+  removed = [],
+  added = [],
+  linked = [],
+  annotation,
+}: CodeBlockProps) {
+  const highlighted = new Map(
+    (sample.highlight ?? []).map((entry) => [entry.line, entry]),
+  );
+
+  return (
+    <pre className={styles.code} data-language={sample.language}>
+      <code>
+        {lines.map((tokens, index) => {
+          const number = index + 1;
+          const mark = highlighted.get(number);
+          const className = [
+            styles.line,
+            mark && styles.marked,
+            removed.includes(number) && styles.removed,
+            added.includes(number) && styles.added,
+            linked.includes(number) && styles.linked,
+            number === activeLine && styles.active,
+          ]
+            .filter(Boolean)
+            .join(" ");
+          return (
+            <span
+              key={number}
+              className={className}
+              data-line={number}
+              aria-current={number === activeLine ? "step" : undefined}
+            >
+              <span className={styles.lineNumber} aria-hidden="true">
+                {number}
+              </span>
+              <span
+                data-source-line
+                data-annotation={annotation && `${annotation}/line-${number}`}
+              >
+                {tokens.map((token, at) =>
+                  token.kind === "plain" ? (
+                    token.text
+                  ) : (
+                    <span key={at} className={styles[token.kind]}>
+                      {token.text}
+                    </span>
+                  ),
+                )}
+              </span>
+              {mark && (
+                <span className={styles.label}>
+                  {mark.label ?? "Highlighted line"}
+                </span>
+              )}
+              {"\n"}
+            </span>
+          );
+        })}
+      </code>
+    </pre>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { rankEntries, type PaletteEntry } from "../_content/palette";
+import styles from "./CommandPalette.module.css";
+
+const KIND_LABEL: Record<PaletteEntry["kind"], string> = {
+  topic: "Topic",
+  subtopic: "Subtopic",
+  sample: "Code",
+};
+
+type CommandPaletteProps = {
+  /** See `getPaletteEntries` in `_content/navigation`. */
+  entries: PaletteEntry[];
+};
+
+/**
+ * Ctrl+K (⌘K on a Mac) opens a dialog that fuzzy-matches the course's topic,
+ * subtopic, and code sample titles. The arrow keys pick a match and Enter
+ * jumps to it.
+ */
+export default function CommandPalette({ entries }: CommandPaletteProps) {
+  const router = useRouter();
+  const id = useId();
+  const dialog = useRef<HTMLDialogElement>(null);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+
+  const matches = useMemo(() => rankEntries(entries, query), [entries, query]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.key.toLowerCase() === "k" &&
+        (event.ctrlKey || event.metaKey) &&
+        !event.altKey
+      ) {
+        event.preventDefault();
+        setOpen((wasOpen) => !wasOpen);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      dialog.current?.showModal();
+    } else {
+      dialog.current?.close();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    document
+      .getElementById(`${id}-option-${selected}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [id, selected]);
+
+  // Clears the query so the palette reopens empty.
+  const close = () => {
+    setOpen(false);
+    setQuery("");
+    setSelected(0);
+  };
+
+  const go = (entry: PaletteEntry) => {
+    close();
+    router.push(entry.href);
+  };
+
+  return (
+    <dialog
+      ref={dialog}
+      className={styles.dialog}
+      aria-label="Jump to a topic, subtopic, or code sample"
+      onClose={close}
+      onClick={(event) => {
+        // Clicks on the backdrop land on the dialog itself.
+        if (event.target === dialog.current) {
+          close();
+        }
+      }}
+    >
+      {open && (
+        <div className={styles.panel}>
+          <input
+            type="text"
+            role="combobox"
+            className={styles.input}
+            placeholder="Jump to…"
+            aria-label="Jump to"
+            aria-expanded
+            aria-controls={`${id}-options`}
+            aria-activedescendant={
+              matches.length > 0 ? `${id}-option-${selected}` : undefined
+            }
+            autoFocus
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={(event) => {
+              const count = matches.length;
+              if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+                event.preventDefault();
+                const step = event.key === "ArrowDown" ? 1 : -1;
+                if (count > 0) {
+                  setSelected((selected + step + count) % count);
+                }
+              } else if (event.key === "Enter" && matches[selected]) {
+                event.preventDefault();
+                go(matches[selected].entry);
+              }
+            }}
+          />
+
+          <ul id={`${id}-options`} role="listbox" className={styles.options}>
+            {matches.map(({ entry, title }, position) => (
+              <li
+                key={entry.href}
+                id={`${id}-option-${position}`}
+                role="option"
+                aria-selected={position === selected}
+                className={styles.option}
+                onMouseMove={() => setSelected(position)}
+                onClick={() => go(entry)}
+              >
+                <span className={styles.kind}>{KIND_LABEL[entry.kind]}</span>
+                <span className={styles.title}>
+                  {title.map((segment, at) =>
+                    segment.match ? (
+                      <mark key={at}>{segment.text}</mark>
+                    ) : (
+                      segment.text
+                    ),
+                  )}
+                </span>
+                {entry.context && (
+                  <span className={styles.context}>{entry.context}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          {matches.length === 0 && (
+            <p className={styles.empty}>No matches for “{query}”.</p>
+          )}
+        </div>
+      )}
+    </dialog>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./CopyLink.module.css";
+
+type CopyLinkProps = {
+  /** The `id` of the heading the link sits in. */
+  id: string;
+  /** Heading text, for the accessible name. */
+  label: string;
+};
+
+const COPIED_MS = 2_000;
+
+/**
+ * A `#` anchor shown when hovering a heading. Clicking it copies the
+ * heading's URL; without clipboard access it behaves as a plain anchor.
+ */
+export default function CopyLink({ id, label }: CopyLinkProps) {
+  const [status, setStatus] = useState("");
+
+  return (
+    <a
+      href={`#${id}`}
+      className={styles.copyLink}
+      aria-label={`Copy link to ${label}`}
+      onClick={(event) => {
+        if (!navigator.clipboard) {
+          return;
+        }
+        event.preventDefault();
+        window.history.replaceState(null, "", `#${id}`);
+        const announce = (message: string) => {
+          setStatus(message);
+          window.setTimeout(() => setStatus(""), COPIED_MS);
+        };
+        navigator.clipboard
+          .writeText(window.location.href)
+          .then(() => announce("Link copied"))
+          // The address bar already shows the link to copy by hand.
+          .catch(() => announce("Copy failed; the link is in the address bar"));
+      }}
+    >
+      <span aria-hidden>#</span>
+      <span className={styles.status} role="status">
+        {status}
+      </span>
+    </a>
+  );
+}
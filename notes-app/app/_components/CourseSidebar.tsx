@@ -0,0 +1,225 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useEffect, useId, useRef, useState } from "react";
+import { renameProgressKeys, useProgress } from "../_progress/store";
+import styles from "./CourseSidebar.module.css";
+
+export type SidebarSubtopic = {
+  id: string;
+  title: string;
+  href: string;
+  /** See `progressKey` in `_content/navigation`. */
+  progressKey: string;
+};
+
+export type SidebarTopic = {
+  id: string;
+  title: string;
+  href: string;
+  subtopics: SidebarSubtopic[];
+};
+
+type CourseSidebarProps = {
+  title: string;
+  href: string;
+  topics: SidebarTopic[];
+  /** See `getLegacyProgressKeys` in `_content/navigation`. */
+  legacyProgressKeys: Record<string, string>;
+};
+
+/** A heading is in view once its top passes this fraction of the viewport. */
+const SPY_LINE = 0.3;
+
+/**
+ * The course's table of contents: sticky beside the page on wide screens and
+ * a drawer behind a "Contents" button on narrow ones. It highlights the page
+ * being read and, as the reader scrolls, the topic or subtopic whose heading
+ * was passed last. Links to headings on the current page become anchors.
+ */
+export default function CourseSidebar({
+  title,
+  href,
+  topics,
+  legacyProgressKeys,
+}: CourseSidebarProps) {
+  const pathname = usePathname();
+  const id = useId();
+  const { completed } = useProgress();
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [spied, setSpied] = useState<{ pathname: string; id?: string }>();
+  const toggle = useRef<HTMLButtonElement>(null);
+  const nav = useRef<HTMLElement>(null);
+
+  // Headings appear in the same order as the contents.
+  const headingIds = topics
+    .flatMap((topic) => [topic.id, ...topic.subtopics.map((each) => each.id)])
+    .join(" ");
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const line = window.innerHeight * SPY_LINE;
+      const passed = headingIds
+        .split(" ")
+        .map((headingId) => document.getElementById(headingId))
+        .filter(
+          (heading): heading is HTMLElement =>
+            heading !== null && heading.getBoundingClientRect().top <= line,
+        );
+      setSpied({ pathname, id: passed.at(-1)?.id });
+    };
+    const schedule = () => {
+      frame ||= window.requestAnimationFrame(update);
+    };
+    schedule();
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+    };
+  }, [headingIds, pathname]);
+
+  // Also catches old keys that arrive later, from an import or another tab.
+  useEffect(() => {
+    renameProgressKeys(legacyProgressKeys);
+  }, [completed, legacyProgressKeys]);
+
+  useEffect(() => {
+    if (open) {
+      nav.current?.querySelector("a")?.focus();
+    }
+  }, [open]);
+
+  const activeId = spied?.pathname === pathname ? spied.id : undefined;
+  const current = (item: { id: string; href: string }) =>
+    item.href === pathname
+      ? "page"
+      : item.id === activeId
+        ? "location"
+        : undefined;
+  const isOpen = (topic: SidebarTopic) =>
+    expanded[topic.id] ??
+    [topic, ...topic.subtopics].some((item) => current(item) !== undefined);
+
+  const close = () => {
+    setOpen(false);
+    toggle.current?.focus();
+  };
+
+  return (
+    <aside
+      className={styles.sidebar}
+      onKeyDown={(event) => {
+        if (event.key === "Escape" && open) {
+          close();
+        }
+      }}
+    >
+      <button
+        ref={toggle}
+        type="button"
+        className={styles.toggle}
+        aria-expanded={open}
+        aria-controls={`${id}-contents`}
+        onClick={() => setOpen(!open)}
+      >
+        {open ? "Close contents" : "Contents"}
+      </button>
+      {open && <div className={styles.backdrop} aria-hidden onClick={close} />}
+
+      <nav
+        ref={nav}
+        id={`${id}-contents`}
+        className={open ? styles.drawerOpen : styles.drawer}
+        aria-label="Course contents"
+      >
+        <p className={styles.course}>
+          <Link
+            href={href}
+            aria-current={pathname === href ? "page" : undefined}
+            onClick={() => setOpen(false)}
+          >
+            {title}
+          </Link>
+        </p>
+
+        <ol className={styles.topics}>
+          {topics.map((topic, index) => {
+            const listId = `${id}-topic-${index}`;
+            const total = topic.subtopics.length;
+            const finished = topic.subtopics.filter(
+              (subtopic) => completed[subtopic.progressKey],
+            ).length;
+            const expandedNow = isOpen(topic);
+            return (
+              <li key={topic.id}>
+                <div className={styles.topic}>
+                  <button
+                    type="button"
+                    className={styles.expand}
+                    aria-expanded={expandedNow}
+                    aria-controls={listId}
+                    aria-label={`Subtopics of ${topic.title}`}
+                    onClick={() =>
+                      setExpanded({ ...expanded, [topic.id]: !expandedNow })
+                    }
+                  >
+                    <span aria-hidden>{expandedNow ? "▾" : "▸"}</span>
+                  </button>
+                  <Link
+                    href={pathname === href ? `#${topic.id}` : topic.href}
+                    aria-current={current(topic)}
+                    onClick={() => setOpen(false)}
+                  >
+                    {topic.title}
+                  </Link>
+                  <span
+                    className={
+                      finished === total ? styles.topicDone : styles.topicCount
+                    }
+                    aria-label={`${finished} of ${total} subtopics done`}
+                  >
+                    {finished === total ? "✓" : `${finished}/${total}`}
+                  </span>
+                </div>
+
+                <ol
+                  id={listId}
+                  className={styles.subtopics}
+                  hidden={!expandedNow}
+                >
+                  {topic.subtopics.map((subtopic) => (
+                    <li key={subtopic.id}>
+                      <Link
+                        href={
+                          pathname === topic.href
+                            ? `#${subtopic.id}`
+                            : subtopic.href
+                        }
+                        aria-current={current(subtopic)}
+                        onClick={() => setOpen(false)}
+                      >
+                        {subtopic.title}
+                      </Link>
+                      {completed[subtopic.progressKey] && (
+                        <span className={styles.topicDone} aria-label="done">
+                          ✓
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </li>
+            );
+          })}
+        </ol>
+      </nav>
+    </aside>
+  );
+}
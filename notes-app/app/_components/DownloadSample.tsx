@@ -0,0 +1,24 @@
+import { sampleFileName } from "../_bundle/names";
+import type { CodeSample, Subtopic } from "../_content/types";
+import styles from "./DownloadSample.module.css";
+
+type DownloadSampleProps = {
+  subtopic: Subtopic;
+  sample: CodeSample;
+};
+
+/** Saves the sample as a `.c` file; a data URL keeps it working without JS. */
+export default function DownloadSample({
+  subtopic,
+  sample,
+}: DownloadSampleProps) {
+  return (
+    <a
+      className={styles.download}
+      href={`data:text/x-csrc;charset=utf-8,${encodeURIComponent(`${sample.content}\n`)}`}
+      download={sampleFileName(subtopic, sample)}
+    >
+      Download .c
+    </a>
+  );
+}
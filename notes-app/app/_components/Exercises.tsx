@@ -0,0 +1,247 @@
+"use client";
+
+import { useId, useState } from "react";
+import type { Token } from "../_content/highlight";
+import type {
+  Exercise,
+  FindTheBugExercise,
+  MultipleChoiceExercise,
+  PredictOutputExercise,
+} from "../_content/types";
+import CodeBlock from "./CodeBlock";
+import codeStyles from "./CodeBlock.module.css";
+import styles from "./Exercises.module.css";
+
+type Verdict = "correct" | "incorrect";
+
+/**
+ * What the server prepares for an exercise so the highlighter and the inline
+ * Markdown renderer stay out of the browser: the `highlightLines` of its
+ * snippet (none for multiple choice) and its text rendered with `InlineText`.
+ */
+type Prepared = {
+  lines: Token[][];
+  rendered: {
+    prompt: React.ReactNode;
+    explanation: React.ReactNode;
+    /** One per choice, in order; empty unless multiple choice. */
+    choices: React.ReactNode[];
+  };
+};
+
+export type ShownExercise = Exercise & Prepared;
+
+const normalizeOutput = (value: string) =>
+  value
+    .trim()
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n");
+
+function Feedback({
+  verdict,
+  explanation,
+}: {
+  verdict?: Verdict;
+  explanation: React.ReactNode;
+}) {
+  return (
+    <div aria-live="polite">
+      {verdict && (
+        <div
+          className={verdict === "correct" ? styles.correct : styles.incorrect}
+        >
+          <p className={styles.verdict}>
+            {verdict === "correct" ? "Correct!" : "Not quite."}
+          </p>
+          <p>{explanation}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MultipleChoice({
+  exercise,
+}: {
+  exercise: MultipleChoiceExercise & Prepared;
+}) {
+  const name = useId();
+  const [choice, setChoice] = useState<string>();
+  const verdict =
+    choice === undefined
+      ? undefined
+      : choice === exercise.answer
+        ? "correct"
+        : "incorrect";
+
+  return (
+    <>
+      <fieldset className={styles.choices}>
+        <legend className={styles.prompt}>{exercise.rendered.prompt}</legend>
+        {exercise.choices.map((option, index) => (
+          <label key={option} className={styles.choice}>
+            <input
+              type="radio"
+              name={name}
+              value={option}
+              checked={choice === option}
+              onChange={() => setChoice(option)}
+            />
+            {exercise.rendered.choices[index]}
+          </label>
+        ))}
+      </fieldset>
+      <Feedback verdict={verdict} explanation={exercise.rendered.explanation} />
+    </>
+  );
+}
+
+function PredictOutput({
+  exercise,
+}: {
+  exercise: PredictOutputExercise & Prepared;
+}) {
+  const inputId = useId();
+  const [guess, setGuess] = useState("");
+  const [verdict, setVerdict] = useState<Verdict>();
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        setVerdict(
+          normalizeOutput(guess) === normalizeOutput(exercise.answer)
+            ? "correct"
+            : "incorrect",
+        );
+      }}
+    >
+      <p className={styles.prompt}>{exercise.rendered.prompt}</p>
+      <CodeBlock
+        sample={{ caption: "", content: exercise.snippet, language: "c" }}
+        lines={exercise.lines}
+      />
+      <div className={styles.answerRow}>
+        <label htmlFor={inputId}>Output</label>
+        <textarea
+          id={inputId}
+          className={styles.answer}
+          rows={3}
+          value={guess}
+          spellCheck={false}
+          autoComplete="off"
+          onChange={(event) => {
+            setGuess(event.target.value);
+            setVerdict(undefined);
+          }}
+        />
+        <button type="submit" disabled={guess.trim() === ""}>
+          Check
+        </button>
+      </div>
+      {verdict === "incorrect" && (
+        <p className={styles.expected}>
+          Expected: <samp>{exercise.answer}</samp>
+        </p>
+      )}
+      <Feedback verdict={verdict} explanation={exercise.rendered.explanation} />
+    </form>
+  );
+}
+
+function FindTheBug({
+  exercise,
+}: {
+  exercise: FindTheBugExercise & Prepared;
+}) {
+  const [picked, setPicked] = useState<number>();
+  const { lines } = exercise;
+  const verdict =
+    picked === undefined
+      ? undefined
+      : picked === exercise.line
+        ? "correct"
+        : "incorrect";
+
+  return (
+    <>
+      <p className={styles.prompt}>{exercise.rendered.prompt}</p>
+      <p className={styles.hint}>Select the line that contains the bug.</p>
+      <ol className={`${codeStyles.code} ${styles.lines}`}>
+        {lines.map((tokens, index) => {
+          const number = index + 1;
+          const state =
+            picked !== number
+              ? ""
+              : verdict === "correct"
+                ? styles.pickedCorrect
+                : styles.pickedIncorrect;
+          return (
+            <li key={number}>
+              <button
+                type="button"
+                className={`${styles.line} ${state}`}
+                aria-pressed={picked === number}
+                aria-label={`Line ${number}`}
+                onClick={() => setPicked(number)}
+              >
+                <span className={codeStyles.lineNumber} aria-hidden="true">
+                  {number}
+                </span>
+                <code>
+                  {tokens.map((token, at) => (
+                    <span
+                      key={at}
+                      className={
+                        token.kind === "plain"
+                          ? undefined
+                          : codeStyles[token.kind]
+                      }
+                    >
+                      {token.text}
+                    </span>
+                  ))}
+                </code>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      <Feedback verdict={verdict} explanation={exercise.rendered.explanation} />
+    </>
+  );
+}
+
+const TYPE_LABEL: Record<Exercise["type"], string> = {
+  "multiple-choice": "Quiz",
+  "predict-output": "Predict the output",
+  "find-the-bug": "Find the bug",
+};
+
+export default function Exercises({
+  exercises,
+}: {
+  exercises: ShownExercise[];
+}) {
+  return (
+    <section className={styles.exercises} aria-label="Exercises">
+      <h4>Check your understanding</h4>
+      <ol>
+        {exercises.map((exercise) => (
+          <li key={exercise.prompt} className={styles.exercise}>
+            <p className={styles.type}>{TYPE_LABEL[exercise.type]}</p>
+            {exercise.type === "multiple-choice" && (
+              <MultipleChoice exercise={exercise} />
+            )}
+            {exercise.type === "predict-output" && (
+              <PredictOutput exercise={exercise} />
+            )}
+            {exercise.type === "find-the-bug" && (
+              <FindTheBug exercise={exercise} />
+            )}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,105 @@
+import { Fragment } from "react";
+import { getGlossary, linkTerms } from "../_content/glossary";
+import {
+  type InlineNode,
+  parseInline,
+  stripMarkdown,
+} from "../_content/markdown";
+import { findSubtopicById, glossaryHref } from "../_content/navigation";
+import { splitReferences } from "../_content/references";
+import type { Course, GlossaryTerm } from "../_content/types";
+import PreviewLink from "./PreviewLink";
+
+type InlineTextProps = {
+  text: string;
+  /** Resolves `[[id]]` references to other subtopics; needed for notes. */
+  course?: Course;
+  /** Renders code spans, e.g. to blank one out on a flashcard. */
+  code?: (text: string) => React.ReactNode;
+};
+
+/** Glossary terms and references to other subtopics in plain text. */
+function linkText(
+  text: string,
+  key: string,
+  linked: Set<GlossaryTerm>,
+  course?: Course,
+): React.ReactNode[] {
+  return linkTerms(text, getGlossary(), linked).flatMap((segment, index) => {
+    if (segment.term) {
+      return (
+        <PreviewLink
+          key={`${key}-${index}`}
+          href={glossaryHref(segment.term)}
+          preview={segment.term.definition}
+          variant="term"
+        >
+          {segment.text}
+        </PreviewLink>
+      );
+    }
+    if (!course) {
+      return segment.text;
+    }
+    return splitReferences(segment.text).map((part, position) => {
+      if ("text" in part) {
+        return part.text;
+      }
+      const target = findSubtopicById(course, part.id);
+      return target ? (
+        <PreviewLink
+          key={`${key}-${index}-${position}`}
+          href={target.href}
+          preview={stripMarkdown(target.subtopic.summary)}
+        >
+          {part.label ?? target.subtopic.title}
+        </PreviewLink>
+      ) : (
+        (part.label ?? part.id)
+      );
+    });
+  });
+}
+
+/**
+ * Renders a summary or note: its inline Markdown, its glossary terms linked,
+ * and its references to other subtopics turned into links that preview the
+ * target's summary. Link text is left as written, since links cannot nest.
+ */
+export default function InlineText({ text, course, code }: InlineTextProps) {
+  const linked = new Set<GlossaryTerm>();
+  const render = (
+    nodes: InlineNode[],
+    prefix: string,
+    inLink = false,
+  ): React.ReactNode[] =>
+    nodes.flatMap((node, index) => {
+      const key = `${prefix}${index}`;
+      switch (node.type) {
+        case "text":
+          return inLink ? node.text : linkText(node.text, key, linked, course);
+        case "code":
+          return code ? (
+            <Fragment key={key}>{code(node.text)}</Fragment>
+          ) : (
+            <code key={key}>{node.text}</code>
+          );
+        case "emphasis":
+          return <em key={key}>{render(node.children, `${key}-`, inLink)}</em>;
+        case "strong":
+          return (
+            <strong key={key}>
+              {render(node.children, `${key}-`, inLink)}
+            </strong>
+          );
+        case "link":
+          return (
+            <a key={key} href={node.href}>
+              {render(node.children, `${key}-`, true)}
+            </a>
+          );
+      }
+    });
+
+  return render(parseInline(text), "");
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { useEffect, useId, useRef, useState } from "react";
+import { currentAnchor } from "../_content/currentAnchor";
+import styles from "./CommandPalette.module.css";
+
+export type ShortcutSubtopic = {
+  id: string;
+  href: string;
+};
+
+type KeyboardShortcutsProps = {
+  /** Every subtopic of the course, in reading order. */
+  subtopics: ShortcutSubtopic[];
+};
+
+const SHORTCUTS: [keys: string[], action: string][] = [
+  [["Ctrl", "K"], "Open the command palette (⌘K on a Mac)"],
+  [["j"], "Next subtopic"],
+  [["k"], "Previous subtopic"],
+  [["c"], "Copy the focused code sample"],
+  [["?"], "Show these shortcuts"],
+  [["Esc"], "Close a dialog"],
+];
+
+const COPIED_MS = 2_000;
+
+/** How far a heading is below where `scrollIntoView` would put it. */
+const offset = (heading: HTMLElement) =>
+  heading.getBoundingClientRect().top -
+  parseFloat(getComputedStyle(heading).scrollMarginTop);
+
+/** Typing into a field, or into the command palette, is not a shortcut. */
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.closest("input, textarea, select, dialog") !== null);
+
+/**
+ * The sample to copy: the one holding focus, else the one the URL points to,
+ * else the first one on screen.
+ */
+function focusedSample(): HTMLElement | undefined {
+  const samples = [...document.querySelectorAll<HTMLElement>("figure[id]")];
+  const hash = currentAnchor();
+  return (
+    samples.find((sample) => sample.contains(document.activeElement)) ??
+    samples.find((sample) => sample.id === hash) ??
+    samples.find((sample) => {
+      const { top, bottom } = sample.getBoundingClientRect();
+      return bottom > 0 && top < window.innerHeight;
+    })
+  );
+}
+
+/**
+ * The source of the sample's first visible code block (a variant's tab may
+ * hide the others), without line numbers or labels; see `CodeBlock`.
+ */
+const sampleSource = (sample: HTMLElement) => {
+  const code = [...sample.querySelectorAll("pre[data-language]")].find(
+    (block) => !block.closest("[hidden]"),
+  );
+  return [...(code?.querySelectorAll("[data-source-line]") ?? [])]
+    .map((line) => line.textContent)
+    .join("\n");
+};
+
+/**
+ * Single-key shortcuts: `j` and `k` move between subtopics (between their
+ * sections on a topic page, between their pages otherwise), `c` copies a
+ * code sample, and `?` lists the shortcuts.
+ */
+export default function KeyboardShortcuts({
+  subtopics,
+}: KeyboardShortcutsProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const id = useId();
+  const dialog = useRef<HTMLDialogElement>(null);
+  const [help, setHelp] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    if (help) {
+      dialog.current?.showModal();
+    } else {
+      dialog.current?.close();
+    }
+  }, [help]);
+
+  useEffect(() => {
+    const move = (step: 1 | -1) => {
+      const current = subtopics.findIndex((each) => each.href === pathname);
+      if (current !== -1) {
+        const target = subtopics[current + step];
+        if (target) {
+          router.push(target.href);
+        }
+        return;
+      }
+      // A topic page shows its subtopics as sections, one after another.
+      const headings = subtopics
+        .map((each) => document.getElementById(each.id))
+        .filter((heading): heading is HTMLElement => heading !== null);
+      const target =
+        step === 1
+          ? headings.find((heading) => offset(heading) > 1)
+          : [...headings].reverse().find((heading) => offset(heading) < -1);
+      if (target) {
+        target.scrollIntoView();
+        window.history.replaceState(null, "", `#${target.id}`);
+      }
+    };
+
+    const copy = () => {
+      const sample = focusedSample();
+      if (!sample || !navigator.clipboard) {
+        return;
+      }
+      const caption = sample.querySelector("figcaption")?.textContent;
+      const announce = (message: string) => {
+        setStatus(message);
+        window.setTimeout(() => setStatus(""), COPIED_MS);
+      };
+      navigator.clipboard
+        .writeText(sampleSource(sample))
+        .then(() => announce(`Copied ${caption ?? "the code sample"}`))
+        .catch(() => announce("Copy failed; select the code to copy it"));
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.defaultPrevented ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        isTyping(event.target)
+      ) {
+        return;
+      }
+      const action = {
+        j: () => move(1),
+        k: () => move(-1),
+        c: copy,
+        "?": () => setHelp(true),
+      }[event.key];
+      if (action) {
+        event.preventDefault();
+        action();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [pathname, router, subtopics]);
+
+  return (
+    <>
+      <p className={styles.status} role="status">
+        {status}
+      </p>
+
+      <dialog
+        ref={dialog}
+        className={styles.dialog}
+        aria-labelledby={`${id}-heading`}
+        onClose={() => setHelp(false)}
+        onClick={(event) => {
+          if (event.target === dialog.current) {
+            setHelp(false);
+          }
+        }}
+      >
+        <div className={styles.panel}>
+          <h2 id={`${id}-heading`} className={styles.heading}>
+            Keyboard shortcuts
+          </h2>
+          <dl className={styles.shortcuts}>
+            {SHORTCUTS.map(([keys, action]) => (
+              <div key={action}>
+                <dt>
+                  {keys.map((key) => (
+                    <kbd key={key}>{key}</kbd>
+                  ))}
+                </dt>
+                <dd>{action}</dd>
+              </div>
+            ))}
+          </dl>
+          <button
+            type="button"
+            className={styles.close}
+            onClick={() => setHelp(false)}
+          >
+            Close
+          </button>
+        </div>
+      </dialog>
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { currentAnchor } from "../_content/currentAnchor";
+
+type LegacyAnchorRedirectProps = {
+  /** Old single-page anchor (without `#`) to the route that replaced it. */
+  routes: Record<string, string>;
+};
+
+/**
+ * Fragments never reach the server, so links such as `/#1-array-fundamentals`
+ * can only be redirected once the page is running in the browser.
+ */
+export default function LegacyAnchorRedirect({
+  routes,
+}: LegacyAnchorRedirectProps) {
+  const router = useRouter();
+
+  useEffect(() => {
+    const route = routes[currentAnchor()];
+    if (route) {
+      router.replace(route);
+    }
+  }, [router, routes]);
+
+  return null;
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import { useId, useState } from "react";
+import {
+  ELEMENT_SIZES,
+  ELEMENT_TYPES,
+  MAX_DIMENSIONS,
+} from "../_content/memoryLayout";
+import type {
+  ElementType,
+  MemoryLayout as MemoryLayoutSpec,
+} from "../_content/types";
+import styles from "./MemoryLayout.module.css";
+
+type Expression = "index" | "pointer" | "address";
+
+type MemoryLayoutProps = {
+  layout: MemoryLayoutSpec;
+};
+
+/** A made-up, 16-byte aligned stack address so the numbers look familiar. */
+const BASE_ADDRESS = 0x7ffc5e40;
+
+const hex = (address: number) => `0x${address.toString(16)}`;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+function NumberInput({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label>
+      <code>{label}</code>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        onChange={(event) => {
+          const next = Number.parseInt(event.target.value, 10);
+          if (!Number.isNaN(next)) {
+            onChange(clamp(next, min, max));
+          }
+        }}
+      />
+    </label>
+  );
+}
+
+/**
+ * Draws an array as the bytes it occupies and shows which element an
+ * expression designates, as the reader changes the element type, the
+ * dimensions, and the indices.
+ */
+export default function MemoryLayout({ layout }: MemoryLayoutProps) {
+  const id = useId();
+  const { name, pointer } = layout;
+  const [type, setType] = useState<ElementType>(layout.type);
+  const [dimensions, setDimensions] = useState(layout.dimensions);
+  const [expression, setExpression] = useState<Expression>("index");
+  const [indices, setIndices] = useState(layout.dimensions.map(() => 0));
+  const [step, setStep] = useState(0);
+
+  const size = ELEMENT_SIZES[type];
+  const limits = MAX_DIMENSIONS[dimensions.length - 1];
+  const isMatrix = dimensions.length === 2;
+  const columns = dimensions[dimensions.length - 1];
+  const count = dimensions.reduce((product, length) => product * length, 1);
+  const total = count * size;
+
+  // Indices stay where the reader left them; shrinking a dimension only
+  // clamps what is drawn.
+  const [row, column] = isMatrix
+    ? [
+        Math.min(indices[0], dimensions[0] - 1),
+        Math.min(indices[1], columns - 1),
+      ]
+    : [0, Math.min(indices[0], count - 1)];
+  const n = Math.min(step, count);
+
+  const declaration = `${type} ${name}${dimensions.map((length) => `[${length}]`).join("")};`;
+  const pointerDeclaration =
+    pointer && `${type} *${pointer} = ${isMatrix ? `&${name}[0][0]` : name};`;
+
+  let selected: number | undefined;
+  let description: string;
+  switch (expression) {
+    case "index": {
+      selected = row * columns + column;
+      description = isMatrix
+        ? `${name}[${row}][${column}] is element ${row} × ${columns} + ${column} = ${selected} in row-major order, at byte offset ${selected} × ${size} = ${selected * size}.`
+        : `${name}[${column}] means *(${name} + ${column}), at byte offset ${column} × ${size} = ${column * size}.`;
+      break;
+    }
+    case "pointer": {
+      selected = n < count ? n : undefined;
+      description =
+        n < count
+          ? `${pointer} + ${n} advances ${n} × sizeof(${type}) = ${n * size} bytes.`
+          : `${pointer} + ${n} points one past the end: a valid bound to compare against, but it must not be dereferenced.`;
+      break;
+    }
+    case "address": {
+      description =
+        `&${name} has the same address as &${name}${isMatrix ? "[0][0]" : "[0]"} but type ` +
+        `${type} (*)${dimensions.map((length) => `[${length}]`).join("")}, so &${name} + 1 ` +
+        `skips all ${total} bytes to ${hex(BASE_ADDRESS + total)}.`;
+      break;
+    }
+  }
+  const address =
+    BASE_ADDRESS + (expression === "pointer" ? n : (selected ?? 0)) * size;
+  const label = {
+    index: isMatrix ? `${name}[${row}][${column}]` : `${name}[${column}]`,
+    pointer: `${pointer} + ${n}`,
+    address: `&${name}`,
+  }[expression];
+
+  const expressions: Expression[] = pointer
+    ? ["index", "pointer", "address"]
+    : ["index", "address"];
+
+  const cell = (index: number) => {
+    const isSelected = expression === "address" || index === selected;
+    const offset = index * size;
+    return (
+      <li
+        key={index}
+        className={isSelected ? styles.selected : styles.cell}
+        aria-current={isSelected || undefined}
+        style={{ flexGrow: size }}
+      >
+        <code className={styles.element}>
+          {isMatrix
+            ? `[${Math.floor(index / columns)}][${index % columns}]`
+            : `[${index}]`}
+        </code>
+        <span className={styles.offset}>+{offset}</span>
+        <span className={styles.address}>{hex(BASE_ADDRESS + offset)}</span>
+      </li>
+    );
+  };
+
+  return (
+    <figure className={styles.layout}>
+      <figcaption>
+        Memory layout of <code>{declaration}</code>
+        {pointerDeclaration && (
+          <>
+            {" "}
+            with <code>{pointerDeclaration}</code>
+          </>
+        )}
+      </figcaption>
+
+      <div className={styles.controls}>
+        <label>
+          Element type
+          <select
+            value={type}
+            onChange={(event) => setType(event.target.value as ElementType)}
+          >
+            {ELEMENT_TYPES.map((option) => (
+              <option key={option} value={option}>
+                {option} ({ELEMENT_SIZES[option]} byte
+                {ELEMENT_SIZES[option] === 1 ? "" : "s"})
+              </option>
+            ))}
+          </select>
+        </label>
+        {dimensions.map((length, index) => (
+          <NumberInput
+            key={index}
+            label={isMatrix ? (index === 0 ? "rows" : "columns") : "length"}
+            value={length}
+            min={1}
+            max={limits[index]}
+            onChange={(value) =>
+              setDimensions(
+                dimensions.map((current, position) =>
+                  position === index ? value : current,
+                ),
+              )
+            }
+          />
+        ))}
+      </div>
+
+      <fieldset className={styles.controls}>
+        <legend>Expression</legend>
+        {expressions.map((option) => (
+          <label key={option}>
+            <input
+              type="radio"
+              name={id}
+              checked={expression === option}
+              onChange={() => setExpression(option)}
+            />
+            <code>
+              {option === "index"
+                ? isMatrix
+                  ? `${name}[row][col]`
+                  : `${name}[i]`
+                : option === "pointer"
+                  ? `${pointer} + n`
+                  : `&${name}`}
+            </code>
+          </label>
+        ))}
+        {expression === "index" &&
+          (isMatrix ? (
+            <>
+              <NumberInput
+                label="row"
+                value={row}
+                min={0}
+                max={dimensions[0] - 1}
+                onChange={(value) => setIndices([value, column])}
+              />
+              <NumberInput
+                label="col"
+                value={column}
+                min={0}
+                max={columns - 1}
+                onChange={(value) => setIndices([row, value])}
+              />
+            </>
+          ) : (
+            <NumberInput
+              label="i"
+              value={column}
+              min={0}
+              max={count - 1}
+              onChange={(value) => setIndices([value])}
+            />
+          ))}
+        {expression === "pointer" && (
+          <NumberInput
+            label="n"
+            value={n}
+            min={0}
+            max={count}
+            onChange={setStep}
+          />
+        )}
+      </fieldset>
+
+      <div className={styles.memory}>
+        {Array.from({ length: isMatrix ? dimensions[0] : 1 }, (_, rowIndex) => {
+          const isLast = rowIndex === (isMatrix ? dimensions[0] - 1 : 0);
+          return (
+            <div key={rowIndex} className={styles.row}>
+              {isMatrix && (
+                <span className={styles.rowLabel}>
+                  row {rowIndex}
+                  <span className={styles.offset}>
+                    +{rowIndex * columns * size}
+                  </span>
+                </span>
+              )}
+              <ol>
+                {Array.from({ length: columns }, (_, columnIndex) =>
+                  cell(rowIndex * columns + columnIndex),
+                )}
+                {isLast && expression === "pointer" && n === count && (
+                  <li className={styles.pastEnd} aria-current>
+                    <code className={styles.element}>end</code>
+                    <span className={styles.offset}>+{total}</span>
+                    <span className={styles.address}>
+                      {hex(BASE_ADDRESS + total)}
+                    </span>
+                  </li>
+                )}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className={styles.result} aria-live="polite">
+        <code>{label}</code> → <code>{hex(address)}</code>. {description}
+      </p>
+      <p className={styles.hint}>
+        sizeof {name} = {count} × {size} = {total} bytes
+        {isMatrix && "; each row follows the previous one (row-major order)"}.
+        Addresses are illustrative.
+      </p>
+    </figure>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { RunEvent, RunOutcome } from "../_playground/protocol";
+import styles from "./Playground.module.css";
+
+type PlaygroundProps = {
+  source: string;
+  caption: string;
+};
+
+type OutputChunk = {
+  stream: "stdout" | "stderr";
+  data: string;
+};
+
+type Exit = Extract<RunEvent, { type: "exit" }>;
+type Compile = Extract<RunEvent, { type: "compile" }>;
+
+function describe(exit: Exit): string {
+  const messages: Record<RunOutcome, string> = {
+    success: "Exited with code 0",
+    failure: `Exited with code ${exit.code}`,
+    "compile-error": "Compilation failed",
+    timeout: "Timed out: the program was stopped",
+    crash: `Crashed with ${exit.signal ?? "a signal"}`,
+    sanitizer: "Sanitizer reported an error",
+    error: "The playground could not run the program",
+  };
+  return `${messages[exit.outcome]} (${exit.durationMs} ms)`;
+}
+
+export default function Playground({ source, caption }: PlaygroundProps) {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState(source);
+  const [sanitize, setSanitize] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [compile, setCompile] = useState<Compile>();
+  const [output, setOutput] = useState<OutputChunk[]>([]);
+  const [exit, setExit] = useState<Exit>();
+  const [error, setError] = useState<string>();
+  const abort = useRef<AbortController>(null);
+
+  const handleEvent = (event: RunEvent) => {
+    switch (event.type) {
+      case "compile":
+        setCompile(event);
+        break;
+      case "stdout":
+      case "stderr":
+        setOutput((chunks) => [
+          ...chunks,
+          { stream: event.type, data: event.data },
+        ]);
+        break;
+      case "exit":
+        setExit(event);
+        break;
+    }
+  };
+
+  const run = async () => {
+    abort.current?.abort();
+    const controller = new AbortController();
+    abort.current = controller;
+    setRunning(true);
+    setCompile(undefined);
+    setOutput([]);
+    setExit(undefined);
+    setError(undefined);
+
+    try {
+      const response = await fetch("/api/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ source: code, sanitize }),
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${response.status})`);
+      }
+
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let buffered = "";
+      let exited = false;
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffered += value;
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines.filter(Boolean)) {
+          const event: RunEvent = JSON.parse(line);
+          exited ||= event.type === "exit";
+          handleEvent(event);
+        }
+      }
+      // The server always ends with `exit`, so the connection was cut.
+      if (!exited) {
+        throw new Error("The run ended unexpectedly");
+      }
+    } catch (cause) {
+      if (!controller.signal.aborted) {
+        setError((cause as Error).message);
+      }
+    } finally {
+      if (abort.current === controller) {
+        setRunning(false);
+      }
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className={styles.trigger}
+        onClick={() => setOpen(true)}
+      >
+        Run
+      </button>
+    );
+  }
+
+  return (
+    <div className={styles.playground}>
+      <textarea
+        className={styles.editor}
+        aria-label={`Editable source for ${caption}`}
+        spellCheck={false}
+        value={code}
+        rows={Math.min(code.split("\n").length + 1, 30)}
+        onChange={(event) => setCode(event.target.value)}
+      />
+
+      <div className={styles.toolbar}>
+        <button type="button" onClick={run} disabled={running}>
+          {running ? "Running…" : "Compile & Run"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setCode(source)}
+          disabled={running}
+        >
+          Reset
+        </button>
+        <label>
+          <input
+            type="checkbox"
+            checked={sanitize}
+            onChange={(event) => setSanitize(event.target.checked)}
+          />
+          AddressSanitizer + UBSan
+        </label>
+        <button
+          type="button"
+          className={styles.close}
+          onClick={() => {
+            abort.current?.abort();
+            setOpen(false);
+          }}
+        >
+          Close
+        </button>
+      </div>
+
+      <div aria-live="polite">
+        {error && <p className={styles.failed}>{error}</p>}
+
+        {compile && (compile.diagnostics.trim() !== "" || !compile.ok) && (
+          <details className={styles.diagnostics} open={!compile.ok}>
+            <summary>
+              Compiler {compile.ok ? "warnings" : "errors"}
+              <code>{compile.command}</code>
+            </summary>
+            <pre>{compile.diagnostics.trim() || "(no output)"}</pre>
+          </details>
+        )}
+
+        {output.length > 0 && (
+          <pre className={styles.output}>
+            {output.map((chunk, index) => (
+              <span
+                key={index}
+                className={
+                  chunk.stream === "stderr" ? styles.stderr : undefined
+                }
+              >
+                {chunk.data}
+              </span>
+            ))}
+            {exit?.truncated && (
+              <span className={styles.stderr}>{"\n"}[output truncated]</span>
+            )}
+          </pre>
+        )}
+
+        {exit && (
+          <p
+            className={
+              exit.outcome === "success" ? styles.succeeded : styles.failed
+            }
+          >
+            {describe(exit)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
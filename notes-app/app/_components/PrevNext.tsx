@@ -0,0 +1,35 @@
+import Link from "next/link";
+import styles from "./navigation.module.css";
+
+export type PageLink = {
+  label: string;
+  href: string;
+};
+
+type PrevNextProps = {
+  previous?: PageLink;
+  next?: PageLink;
+};
+
+export default function PrevNext({ previous, next }: PrevNextProps) {
+  if (!previous && !next) {
+    return null;
+  }
+
+  return (
+    <nav aria-label="Pagination" className={styles.prevNext}>
+      {previous && (
+        <Link href={previous.href} rel="prev" className={styles.previous}>
+          <span className={styles.direction}>Previous</span>
+          {previous.label}
+        </Link>
+      )}
+      {next && (
+        <Link href={next.href} rel="next" className={styles.next}>
+          <span className={styles.direction}>Next</span>
+          {next.label}
+        </Link>
+      )}
+    </nav>
+  );
+}
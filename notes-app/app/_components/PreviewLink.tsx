@@ -0,0 +1,51 @@
+"use client";
+
+import { type ReactNode, useId, useState } from "react";
+import styles from "./PreviewLink.module.css";
+
+type PreviewLinkProps = {
+  href: string;
+  /** Shown on hover or focus, e.g. a glossary definition or a summary. */
+  preview: string;
+  /** Glossary terms are dotted, to tell them apart from ordinary links. */
+  variant?: "term" | "reference";
+  children: ReactNode;
+};
+
+/**
+ * A link with a short preview of its target that appears on hover or focus.
+ * Escape hides it again without moving focus.
+ */
+export default function PreviewLink({
+  href,
+  preview,
+  variant = "reference",
+  children,
+}: PreviewLinkProps) {
+  const id = useId();
+  const [dismissed, setDismissed] = useState(false);
+
+  return (
+    <span
+      className={styles[variant]}
+      onMouseLeave={() => setDismissed(false)}
+      onBlur={() => setDismissed(false)}
+      onKeyDown={(event) => {
+        if (event.key === "Escape") {
+          setDismissed(true);
+        }
+      }}
+    >
+      <a href={href} aria-describedby={id}>
+        {children}
+      </a>
+      <span
+        id={id}
+        role="tooltip"
+        className={dismissed ? styles.dismissed : styles.preview}
+      >
+        {preview}
+      </span>
+    </span>
+  );
+}
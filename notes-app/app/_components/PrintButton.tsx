@@ -0,0 +1,16 @@
+"use client";
+
+import styles from "./PrintedCourse.module.css";
+
+/** Opens the browser's print dialog, from which the page can be saved as PDF. */
+export default function PrintButton() {
+  return (
+    <button
+      type="button"
+      className={styles.printButton}
+      onClick={() => window.print()}
+    >
+      Print or save as PDF
+    </button>
+  );
+}
@@ -0,0 +1,94 @@
+import { highlightLines } from "../_content/highlight";
+import type { Book } from "../_export/book";
+import CodeBlock from "./CodeBlock";
+import InlineText from "./InlineText";
+import PrintButton from "./PrintButton";
+import styles from "./PrintedCourse.module.css";
+import SampleOutput from "./SampleOutput";
+
+type PrintedCourseProps = {
+  book: Book;
+  /** Where the screen-only "back" link goes. */
+  href: string;
+};
+
+/**
+ * A whole course on one page, laid out for paper: each topic starts a new
+ * page, samples are kept whole, and the contents list page numbers where the
+ * print engine supports `target-counter()`.
+ */
+export default function PrintedCourse({ book, href }: PrintedCourseProps) {
+  return (
+    <article className={styles.book}>
+      <div className={styles.screenOnly}>
+        <a href={href}>← Back to the course</a>
+        <PrintButton />
+      </div>
+
+      <header className={styles.cover}>
+        <h1>{book.title}</h1>
+        <p>{book.subtitle}</p>
+      </header>
+
+      <nav className={styles.contents} aria-label="Contents">
+        <h2>Contents</h2>
+        <ol>
+          {book.chapters.map((chapter) => (
+            <li key={chapter.id}>
+              <a href={`#${chapter.id}`}>{chapter.title}</a>
+              <ol>
+                {chapter.sections.map((section) => (
+                  <li key={section.id}>
+                    <a href={`#${section.id}`}>{section.title}</a>
+                  </li>
+                ))}
+              </ol>
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      {book.chapters.map((chapter) => (
+        <section key={chapter.id} className={styles.chapter}>
+          <h2 id={chapter.id}>{chapter.title}</h2>
+          <p className={styles.summary}>
+            <InlineText text={chapter.summary} />
+          </p>
+
+          {chapter.sections.map((section) => (
+            <section key={section.id} className={styles.section}>
+              <h3 id={section.id}>{section.title}</h3>
+              <p>
+                <InlineText text={section.summary} />
+              </p>
+              {section.notes.length > 0 && (
+                <ul className={styles.notes}>
+                  {section.notes.map((note) => (
+                    <li key={note}>
+                      <InlineText text={note} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {section.samples.map(({ sample, diagnostics }) => (
+                <figure key={sample.caption} className={styles.sample}>
+                  <figcaption>{sample.caption}</figcaption>
+                  <CodeBlock
+                    sample={sample}
+                    lines={highlightLines(sample.content, sample.language)}
+                  />
+                  {diagnostics && (
+                    <SampleOutput output={diagnostics} heading="Diagnostics" />
+                  )}
+                  {sample.expectedOutput !== undefined && (
+                    <SampleOutput output={sample.expectedOutput} />
+                  )}
+                </figure>
+              ))}
+            </section>
+          ))}
+        </section>
+      ))}
+    </article>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  exportProgress,
+  importProgress,
+  resetProgress,
+  useProgress,
+} from "../_progress/store";
+import styles from "./Progress.module.css";
+
+type ProgressSummaryProps = {
+  /** Names the exported file. */
+  courseSlug: string;
+  /** Every subtopic of the course; see `progressKey` in `_content/navigation`. */
+  progressKeys: string[];
+  /** Class names of the surrounding hero's panel. */
+  className?: string;
+  headingClassName?: string;
+};
+
+function download(filename: string, contents: string) {
+  const url = URL.createObjectURL(
+    new Blob([contents], { type: "application/json" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Overall reading progress for a course, with export, import, and reset. The
+ * per-topic counts live in the course sidebar.
+ */
+export default function ProgressSummary({
+  courseSlug,
+  progressKeys,
+  className,
+  headingClassName,
+}: ProgressSummaryProps) {
+  const { completed } = useProgress();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string>();
+
+  const total = progressKeys.length;
+  const done = progressKeys.filter((key) => completed[key]).length;
+  const percent = total === 0 ? 0 : Math.round((done / total) * 100);
+
+  const handleImport = async (file: File) => {
+    try {
+      const added = importProgress(await file.text());
+      setMessage(`Imported progress: ${added} new subtopic(s) marked done.`);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  return (
+    <section className={className} aria-label="Reading progress">
+      <p className={headingClassName}>Your Progress</p>
+
+      <div className={styles.overall}>
+        <progress
+          max={total}
+          value={done}
+          aria-label="Subtopics completed"
+          className={styles.bar}
+        />
+        <span>
+          {done} of {total} subtopics done ({percent}%)
+        </span>
+      </div>
+
+      <div className={styles.actions}>
+        <button
+          type="button"
+          onClick={() =>
+            download(
+              `${courseSlug}-progress.json`,
+              JSON.stringify(exportProgress(progressKeys), null, 2),
+            )
+          }
+        >
+          Export progress
+        </button>
+        <button type="button" onClick={() => fileInput.current?.click()}>
+          Import progress
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              handleImport(file);
+            }
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => {
+            if (window.confirm("Clear your reading progress in this course?")) {
+              resetProgress(progressKeys);
+              setMessage("Progress reset.");
+            }
+          }}
+        >
+          Reset
+        </button>
+      </div>
+      {message && (
+        <p role="status" className={styles.message}>
+          {message}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { setCompleted, useProgress } from "../_progress/store";
+import styles from "./Progress.module.css";
+
+type ProgressTrackerProps = {
+  progressKey: string;
+};
+
+/**
+ * Placed at the end of a subtopic: offers a "done" toggle and marks the
+ * subtopic done automatically once the reader scrolls past its start and
+ * reaches this point.
+ */
+export default function ProgressTracker({ progressKey }: ProgressTrackerProps) {
+  const done = Boolean(useProgress().completed[progressKey]);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = sentinel.current;
+    const section = element?.closest("section");
+    if (!element || !section || done) {
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && section.getBoundingClientRect().top < 0) {
+        setCompleted(progressKey, true);
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [progressKey, done]);
+
+  return (
+    <div ref={sentinel} className={styles.tracker}>
+      <label className={done ? styles.done : undefined}>
+        <input
+          type="checkbox"
+          checked={done}
+          onChange={(event) => setCompleted(progressKey, event.target.checked)}
+        />
+        {done ? "Done" : "Mark as done"}
+      </label>
+    </div>
+  );
+}
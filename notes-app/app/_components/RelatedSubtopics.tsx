@@ -0,0 +1,63 @@
+import { stripMarkdown } from "../_content/markdown";
+import {
+  findSubtopicById,
+  getBacklinks,
+  type SubtopicEntry,
+} from "../_content/navigation";
+import type { Course, Subtopic } from "../_content/types";
+import PreviewLink from "./PreviewLink";
+import styles from "./RelatedSubtopics.module.css";
+
+type RelatedSubtopicsProps = {
+  course: Course;
+  subtopic: Subtopic;
+};
+
+function LinkList({
+  heading,
+  entries,
+}: {
+  heading: string;
+  entries: SubtopicEntry[];
+}) {
+  return (
+    <div>
+      <h4>{heading}</h4>
+      <ul>
+        {entries.map((entry) => (
+          <li key={entry.subtopic.id}>
+            <PreviewLink
+              href={entry.href}
+              preview={stripMarkdown(entry.subtopic.summary)}
+            >
+              {entry.subtopic.title}
+            </PreviewLink>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** The subtopic's `seeAlso` entries and the subtopics that refer to it. */
+export default function RelatedSubtopics({
+  course,
+  subtopic,
+}: RelatedSubtopicsProps) {
+  const seeAlso = (subtopic.seeAlso ?? [])
+    .map((id) => findSubtopicById(course, id))
+    .filter((entry): entry is SubtopicEntry => entry !== undefined);
+  const backlinks = getBacklinks(course, subtopic);
+  if (seeAlso.length === 0 && backlinks.length === 0) {
+    return null;
+  }
+
+  return (
+    <nav className={styles.related} aria-label="Related subtopics">
+      {seeAlso.length > 0 && <LinkList heading="See also" entries={seeAlso} />}
+      {backlinks.length > 0 && (
+        <LinkList heading="Linked from" entries={backlinks} />
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import {
+  describeInterval,
+  GRADES,
+  type Grade,
+  schedule,
+  today,
+} from "../_review/schedule";
+import {
+  pruneSchedules,
+  resetReviews,
+  saveSchedule,
+  useReviews,
+} from "../_review/store";
+import styles from "./ReviewSession.module.css";
+
+/** A flashcard with both faces already rendered on the server. */
+export type ReviewCard = {
+  id: string;
+  front: React.ReactNode;
+  back: React.ReactNode;
+  subtopic: string;
+  href: string;
+};
+
+type ReviewSessionProps = {
+  /** The course's slug, which starts the id of each of its cards. */
+  course: string;
+  cards: ReviewCard[];
+};
+
+/** Cards seen for the first time per day, so a new deck is not a wall. */
+const NEW_PER_DAY = 20;
+
+/** Keys on a focused control already act on it. */
+const isInteractive = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  target.closest("a, button, input, textarea, select, dialog") !== null;
+
+/**
+ * Today's review: the cards that are due, longest-waiting first, then new
+ * cards up to the daily limit. A card answered "Again" goes to the back of
+ * the queue until it is answered correctly.
+ */
+export default function ReviewSession({ course, cards }: ReviewSessionProps) {
+  const { cards: schedules } = useReviews();
+  const [day] = useState(() => today());
+  const [revealed, setRevealed] = useState(false);
+
+  // Forgets removed cards, also when their schedules arrive later from
+  // another tab.
+  useEffect(() => {
+    pruneSchedules(`${course}/`, cards.map((card) => card.id));
+  }, [cards, course, schedules]);
+
+  const due = cards
+    .filter((card) => schedules[card.id] && schedules[card.id].due <= day)
+    .sort((a, b) =>
+      schedules[a.id].reviewedAt.localeCompare(schedules[b.id].reviewedAt),
+    );
+  const introduced = cards.filter(
+    (each) => schedules[each.id]?.introduced === day,
+  ).length;
+  const fresh = cards
+    .filter((card) => !schedules[card.id])
+    .slice(0, Math.max(0, NEW_PER_DAY - introduced));
+  const queue = [...due, ...fresh];
+  const card = queue[0];
+
+  const grade = useCallback(
+    (value: Grade) => {
+      if (!card) {
+        return;
+      }
+      saveSchedule(card.id, schedule(schedules[card.id], value, day));
+      setRevealed(false);
+    },
+    [card, day, schedules],
+  );
+
+  useEffect(() => {
+    if (!card) {
+      return;
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.defaultPrevented ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        isInteractive(event.target)
+      ) {
+        return;
+      }
+      if (!revealed && (event.key === " " || event.key === "Enter")) {
+        event.preventDefault();
+        setRevealed(true);
+        return;
+      }
+      const choice = GRADES[Number(event.key) - 1];
+      if (revealed && choice) {
+        event.preventDefault();
+        grade(choice.grade);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [card, grade, revealed]);
+
+  const upcoming = Object.entries(schedules)
+    .filter(([id]) => cards.some((each) => each.id === id))
+    .map(([, each]) => each.due)
+    .sort()[0];
+
+  return (
+    <section className={styles.session} aria-label="Flashcard review">
+      <p className={styles.counts}>
+        <span>{due.length} due</span>
+        <span>{fresh.length} new</span>
+        <span>{cards.length} cards in the deck</span>
+      </p>
+
+      {card ? (
+        <article className={styles.card} aria-live="polite">
+          <div className={styles.face}>{card.front}</div>
+          {revealed ? (
+            <>
+              <div className={`${styles.face} ${styles.back}`}>
+                {card.back}
+              </div>
+              <p className={styles.source}>
+                From <Link href={card.href}>{card.subtopic}</Link>
+              </p>
+              <div className={styles.grades}>
+                {GRADES.map((choice, index) => (
+                  <button
+                    key={choice.grade}
+                    type="button"
+                    onClick={() => grade(choice.grade)}
+                  >
+                    <span className={styles.label}>
+                      {index + 1}. {choice.label}
+                    </span>
+                    <span className={styles.interval}>
+                      {describeInterval(
+                        schedule(schedules[card.id], choice.grade, day)
+                          .interval,
+                      )}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <button
+              type="button"
+              className={styles.reveal}
+              onClick={() => setRevealed(true)}
+            >
+              Show answer
+            </button>
+          )}
+        </article>
+      ) : (
+        <p className={styles.done} role="status">
+          {cards.length === 0
+            ? "This course has no flashcards yet."
+            : upcoming
+              ? `All caught up. The next cards are due on ${upcoming}.`
+              : "All caught up."}
+        </p>
+      )}
+
+      <p className={styles.hint}>
+        Press Space to show the answer, then 1–4 to grade it.{" "}
+        <button
+          type="button"
+          className={styles.reset}
+          onClick={() => {
+            if (
+              window.confirm("Forget this course's reviews and start over?")
+            ) {
+              resetReviews(`${course}/`);
+              setRevealed(false);
+            }
+          }}
+        >
+          Reset reviews
+        </button>
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,55 @@
+import { highlightLines } from "../_content/highlight";
+import type { CodeSample } from "../_content/types";
+import CodeBlock from "./CodeBlock";
+import Playground from "./Playground";
+import SampleOutput from "./SampleOutput";
+import SampleTabs from "./SampleTabs";
+import TracePlayer from "./TracePlayer";
+
+type SampleCodeProps = {
+  sample: CodeSample;
+  /** Shown on a second tab when set. */
+  assembly?: React.ReactNode;
+  /** See `CodeBlock`. */
+  annotation?: string;
+};
+
+/** A sample without variants: its source, output, and playground. */
+export default function SampleCode({
+  sample,
+  assembly,
+  annotation,
+}: SampleCodeProps) {
+  const lines = highlightLines(sample.content, sample.language);
+  const code = (
+    <>
+      {sample.trace ? (
+        <TracePlayer
+          sample={{ ...sample, trace: sample.trace }}
+          lines={lines}
+          annotation={annotation}
+        />
+      ) : (
+        <CodeBlock sample={sample} lines={lines} annotation={annotation} />
+      )}
+      {sample.expectedOutput !== undefined && (
+        <SampleOutput output={sample.expectedOutput} />
+      )}
+      {sample.language === "c" && (
+        <Playground source={sample.content} caption={sample.caption} />
+      )}
+    </>
+  );
+
+  if (!assembly) {
+    return code;
+  }
+  return (
+    <SampleTabs
+      tabs={[
+        { name: "Code", panel: code },
+        { name: "Assembly", panel: assembly },
+      ]}
+    />
+  );
+}
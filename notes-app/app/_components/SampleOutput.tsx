@@ -0,0 +1,22 @@
+import styles from "./SampleOutput.module.css";
+
+type SampleOutputProps = {
+  output: string;
+  /** E.g. "Diagnostics" for a variant's compiler or sanitizer report. */
+  heading?: string;
+};
+
+/** The output a sample is verified to print, shown under its source. */
+export default function SampleOutput({
+  output,
+  heading = "Output",
+}: SampleOutputProps) {
+  return (
+    <div className={styles.output}>
+      <p className={styles.heading}>{heading}</p>
+      <pre>
+        <samp>{output}</samp>
+      </pre>
+    </div>
+  );
+}
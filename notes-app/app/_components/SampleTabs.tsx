@@ -0,0 +1,70 @@
+"use client";
+
+import { useId, useState } from "react";
+import styles from "./SampleTabs.module.css";
+
+export type SampleTab = {
+  /** Shown on the tab; `buggy` and `fixed` are colored. */
+  name: string;
+  panel: React.ReactNode;
+};
+
+type SampleTabsProps = {
+  tabs: SampleTab[];
+};
+
+/**
+ * Switches between views of one code sample: its variants, their diff, and
+ * its assembly. Every panel stays mounted, so playground edits survive.
+ */
+export default function SampleTabs({ tabs }: SampleTabsProps) {
+  const id = useId();
+  const [selected, setSelected] = useState(0);
+
+  return (
+    <div className={styles.sampleTabs}>
+      <div
+        role="tablist"
+        aria-label="Views of the sample"
+        className={styles.tabs}
+        onKeyDown={(event) => {
+          if (event.key === "ArrowRight" || event.key === "ArrowLeft") {
+            const step = event.key === "ArrowRight" ? 1 : -1;
+            const next = (selected + step + tabs.length) % tabs.length;
+            setSelected(next);
+            document.getElementById(`${id}-tab-${next}`)?.focus();
+          }
+        }}
+      >
+        {tabs.map(({ name }, index) => (
+          <button
+            key={name}
+            id={`${id}-tab-${index}`}
+            type="button"
+            role="tab"
+            className={styles.tab}
+            aria-selected={index === selected}
+            aria-controls={`${id}-panel-${index}`}
+            tabIndex={index === selected ? 0 : -1}
+            data-tab={name}
+            onClick={() => setSelected(index)}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {tabs.map(({ name, panel }, index) => (
+        <div
+          key={name}
+          id={`${id}-panel-${index}`}
+          role="tabpanel"
+          aria-labelledby={`${id}-tab-${index}`}
+          hidden={index !== selected}
+        >
+          {panel}
+        </div>
+      ))}
+    </div>
+  );
+}
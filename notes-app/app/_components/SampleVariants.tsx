@@ -0,0 +1,88 @@
+import { sampleTarget } from "../_annotations/targets";
+import { highlightLines } from "../_content/highlight";
+import type { CodeSample, SampleVariant, Subtopic } from "../_content/types";
+import { changedLines, variantSample } from "../_content/variants";
+import CodeBlock from "./CodeBlock";
+import DownloadSample from "./DownloadSample";
+import Playground from "./Playground";
+import SampleOutput from "./SampleOutput";
+import SampleTabs, { type SampleTab } from "./SampleTabs";
+import styles from "./SampleVariants.module.css";
+
+type SampleVariantsProps = {
+  subtopic: Subtopic;
+  sample: CodeSample & { variants: SampleVariant[] };
+  /** Shown on a tab after the diff. */
+  assembly?: React.ReactNode;
+};
+
+/**
+ * A sample's variants as tabs, each with its diagnostics, output, download,
+ * and playground, plus a side-by-side view that marks the lines each variant
+ * changes relative to the first. Readers annotate a variant's lines on its
+ * own tab.
+ */
+export default function SampleVariants({
+  subtopic,
+  sample,
+  assembly,
+}: SampleVariantsProps) {
+  const [first, ...rest] = sample.variants;
+  const changes = rest.map((variant) =>
+    changedLines(first.content, variant.content),
+  );
+  const removed = [...new Set(changes.flatMap((change) => change.removed))];
+
+  const tabs: SampleTab[] = sample.variants.map((variant) => {
+    const program = variantSample(sample, variant);
+    return {
+      name: variant.name,
+      panel: (
+        <>
+          {sample.language === "c" && (
+            <p className={styles.actions}>
+              <DownloadSample subtopic={subtopic} sample={program} />
+            </p>
+          )}
+          <CodeBlock
+            sample={program}
+            lines={highlightLines(program.content, program.language)}
+            annotation={sampleTarget(subtopic, sample, variant)}
+          />
+          {variant.diagnostics !== undefined && (
+            <SampleOutput heading="Diagnostics" output={variant.diagnostics} />
+          )}
+          {variant.expectedOutput !== undefined && (
+            <SampleOutput output={variant.expectedOutput} />
+          )}
+          {sample.language === "c" && (
+            <Playground source={variant.content} caption={program.caption} />
+          )}
+        </>
+      ),
+    };
+  });
+  tabs.push({
+    name: "Side by side",
+    panel: (
+      <div className={styles.diff}>
+        {sample.variants.map((variant, index) => (
+          <div key={variant.name} className={styles.column}>
+            <p className={styles.name}>{variant.name}</p>
+            <CodeBlock
+              sample={variantSample(sample, variant)}
+              lines={highlightLines(variant.content, sample.language)}
+              removed={index === 0 ? removed : undefined}
+              added={index === 0 ? undefined : changes[index - 1].added}
+            />
+          </div>
+        ))}
+      </div>
+    ),
+  });
+  if (assembly) {
+    tabs.push({ name: "Assembly", panel: assembly });
+  }
+
+  return <SampleTabs tabs={tabs} />;
+}
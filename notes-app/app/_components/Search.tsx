@@ -0,0 +1,114 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useId, useMemo, useState } from "react";
+import { search, type SearchField, type SearchIndex } from "../_content/search";
+import styles from "./Search.module.css";
+
+const FIELD_LABEL: Record<SearchField, string> = {
+  title: "Title",
+  summary: "Summary",
+  note: "Note",
+  code: "Code",
+};
+
+type SearchProps = {
+  /** Slug of the course whose index to query. */
+  course: string;
+};
+
+export default function Search({ course }: SearchProps) {
+  const [index, setIndex] = useState<SearchIndex>();
+  const [failed, setFailed] = useState(false);
+  const [query, setQuery] = useState("");
+  const resultsId = useId();
+
+  // The index is only needed once someone starts typing.
+  useEffect(() => {
+    if (index || failed || query.trim() === "") {
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/search/${course}`)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Search index returned ${response.status}`);
+        }
+        return response.json() as Promise<SearchIndex>;
+      })
+      .then((loaded) => {
+        if (!cancelled) {
+          setIndex(loaded);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setFailed(true);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [course, failed, index, query]);
+
+  const hits = useMemo(
+    () => (index ? search(index, query) : []),
+    [index, query],
+  );
+  const showResults = query.trim() !== "" && index !== undefined;
+
+  return (
+    <div className={styles.search} role="search">
+      <input
+        type="search"
+        className={styles.input}
+        placeholder="Search notes and code, e.g. realloc"
+        aria-label="Search the notes"
+        aria-controls={resultsId}
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+      />
+
+      <div id={resultsId} aria-live="polite">
+        {failed && query.trim() !== "" && (
+          <p className={styles.error}>
+            Search could not be loaded. Check your connection and reload the
+            page to try again.
+          </p>
+        )}
+        {showResults && hits.length === 0 && (
+          <p className={styles.empty}>No matches for “{query}”.</p>
+        )}
+        {showResults && hits.length > 0 && (
+          <ol className={styles.results}>
+            {hits.map(({ document, snippet }, position) => (
+              <li key={`${document.href}-${position}`}>
+                <Link href={document.href} className={styles.result}>
+                  <span className={styles.meta}>
+                    <span className={styles.field}>
+                      {FIELD_LABEL[document.field]}
+                    </span>
+                    {document.label}
+                  </span>
+                  <span
+                    className={
+                      document.field === "code" ? styles.codeSnippet : undefined
+                    }
+                  >
+                    {snippet.map((segment, at) =>
+                      segment.match ? (
+                        <mark key={at}>{segment.text}</mark>
+                      ) : (
+                        segment.text
+                      ),
+                    )}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import type { CStandard } from "../_content/types";
+import styles from "./Standards.module.css";
+
+type StandardBadgeProps = {
+  standard: CStandard;
+};
+
+export default function StandardBadge({ standard }: StandardBadgeProps) {
+  return (
+    <abbr className={styles.badge} title={`Requires ${standard} or later`}>
+      {standard}
+    </abbr>
+  );
+}
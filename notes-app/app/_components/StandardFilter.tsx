@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useId, useSyncExternalStore } from "react";
+import { STANDARDS } from "../_content/standards";
+import type { CStandard } from "../_content/types";
+import styles from "./Standards.module.css";
+
+/**
+ * Hides content tagged with a newer standard than the one chosen. Tagged
+ * elements carry `data-standard`; the rules in `globals.css` hide them based
+ * on the `data-standard-filter` attribute this sets on `<html>`.
+ */
+
+const STORAGE_KEY = "c-arrays-notes:standard-filter";
+const listeners = new Set<() => void>();
+
+function read(): CStandard | "" {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return STANDARDS.includes(stored as CStandard) ? (stored as CStandard) : "";
+  } catch {
+    return "";
+  }
+}
+
+function write(next: CStandard | "") {
+  try {
+    if (next) {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Without storage the filter only lasts until the next page.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) {
+      listener();
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export default function StandardFilter() {
+  const id = useId();
+  const filter = useSyncExternalStore(subscribe, read, () => "" as const);
+
+  useEffect(() => {
+    if (filter) {
+      document.documentElement.dataset.standardFilter = filter;
+    } else {
+      delete document.documentElement.dataset.standardFilter;
+    }
+  }, [filter]);
+
+  return (
+    <div className={styles.filter}>
+      <label htmlFor={id}>Show what is valid in</label>
+      <select
+        id={id}
+        value={filter}
+        onChange={(event) => write(event.target.value as CStandard | "")}
+      >
+        <option value="">any standard</option>
+        {STANDARDS.map((standard) => (
+          <option key={standard} value={standard}>
+            {standard}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
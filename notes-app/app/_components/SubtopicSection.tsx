@@ -0,0 +1,157 @@
+import Link from "next/link";
+import {
+  annotationKey,
+  annotationTargets,
+  noteTarget,
+  sampleTarget,
+} from "../_annotations/targets";
+import { sampleAssembly } from "../_assembly/compiler";
+import { highlightLines } from "../_content/highlight";
+import { sampleAnchor } from "../_content/navigation";
+import { sampleStandard } from "../_content/standards";
+import type { CodeSample, Course, Subtopic } from "../_content/types";
+import styles from "../page.module.css";
+import Annotations from "./Annotations";
+import AssemblyView from "./AssemblyView";
+import CopyLink from "./CopyLink";
+import DownloadSample from "./DownloadSample";
+import Exercises from "./Exercises";
+import InlineText from "./InlineText";
+import MemoryLayout from "./MemoryLayout";
+import ProgressTracker from "./ProgressTracker";
+import RelatedSubtopics from "./RelatedSubtopics";
+import SampleCode from "./SampleCode";
+import SampleVariants from "./SampleVariants";
+import StandardBadge from "./StandardBadge";
+
+type SubtopicSectionProps = {
+  course: Course;
+  subtopic: Subtopic;
+  /** See `progressKey` in `_content/navigation`. */
+  progressKey: string;
+  /** Links the heading to the subtopic's own page when set. */
+  href?: string;
+};
+
+export default function SubtopicSection({
+  course,
+  subtopic,
+  progressKey,
+  href,
+}: SubtopicSectionProps) {
+  const assembly = (sample: CodeSample) => {
+    const versions = sampleAssembly(subtopic, sample);
+    return versions.length > 0 ? (
+      <AssemblyView versions={versions} />
+    ) : undefined;
+  };
+
+  return (
+    <section className={styles.subtopic} data-standard={subtopic.standard}>
+      <h3 id={subtopic.id}>
+        {href ? <Link href={href}>{subtopic.title}</Link> : subtopic.title}
+        {subtopic.standard && <StandardBadge standard={subtopic.standard} />}
+        <CopyLink id={subtopic.id} label={subtopic.title} />
+      </h3>
+      <Annotations
+        annotationKey={annotationKey(course, subtopic)}
+        targets={annotationTargets(subtopic)}
+      >
+        <p data-annotation="summary">
+          <InlineText text={subtopic.summary} />
+        </p>
+
+        {subtopic.notes && (
+          <ul className={styles.notes}>
+            {subtopic.notes.map((note) => (
+              <li
+                key={note.id}
+                data-standard={note.standard}
+                data-annotation={noteTarget(note)}
+              >
+                <InlineText text={note.text} course={course} />
+                {note.standard && <StandardBadge standard={note.standard} />}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {subtopic.memoryLayout && (
+          <MemoryLayout layout={subtopic.memoryLayout} />
+        )}
+
+        {subtopic.code && (
+          <div className={styles.codeGroup}>
+            {subtopic.code.map((sample) => (
+              <figure
+                id={sampleAnchor(subtopic, sample)}
+                className={styles.codeSample}
+                key={`${subtopic.title}-${sample.caption}`}
+                // Focusable so the `c` shortcut knows which sample to copy.
+                tabIndex={-1}
+                data-standard={
+                  sample.language === "c"
+                    ? sampleStandard(subtopic, sample)
+                    : undefined
+                }
+              >
+                <figcaption>
+                  {sample.caption}
+                  {sample.language === "c" && (
+                    <StandardBadge
+                      standard={sampleStandard(subtopic, sample)}
+                    />
+                  )}
+                  {sample.language === "c" && !sample.variants && (
+                    <DownloadSample subtopic={subtopic} sample={sample} />
+                  )}
+                </figcaption>
+                {sample.variants ? (
+                  <SampleVariants
+                    subtopic={subtopic}
+                    sample={{ ...sample, variants: sample.variants }}
+                    assembly={assembly(sample)}
+                  />
+                ) : (
+                  <SampleCode
+                    sample={sample}
+                    assembly={assembly(sample)}
+                    annotation={sampleTarget(subtopic, sample)}
+                  />
+                )}
+              </figure>
+            ))}
+          </div>
+        )}
+      </Annotations>
+
+      {subtopic.exercises && (
+        <Exercises
+          exercises={subtopic.exercises.map((exercise) => ({
+            ...exercise,
+            lines:
+              exercise.type === "multiple-choice"
+                ? []
+                : highlightLines(exercise.snippet, "c"),
+            rendered: {
+              prompt: <InlineText text={exercise.prompt} course={course} />,
+              explanation: (
+                <InlineText text={exercise.explanation} course={course} />
+              ),
+              choices:
+                exercise.type === "multiple-choice"
+                  ? exercise.choices.map((choice) => (
+                      <InlineText key={choice} text={choice} course={course} />
+                    ))
+                  : [],
+            },
+          }))}
+        />
+      )}
+
+      <RelatedSubtopics course={course} subtopic={subtopic} />
+
+      <ProgressTracker progressKey={progressKey} />
+    </section>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Token } from "../_content/highlight";
+import type { CodeSample, SampleTrace } from "../_content/types";
+import CodeBlock from "./CodeBlock";
+import styles from "./TracePlayer.module.css";
+
+type TracePlayerProps = {
+  sample: CodeSample & { trace: SampleTrace };
+  /** See `CodeBlock`. */
+  lines: Token[][];
+  /** See `CodeBlock`. */
+  annotation?: string;
+};
+
+const PLAY_INTERVAL_MS = 900;
+
+/**
+ * Replays a sample's recorded trace: the active line is highlighted in the
+ * code, with the values and arrays as they were just before it ran.
+ */
+export default function TracePlayer({
+  sample,
+  lines,
+  annotation,
+}: TracePlayerProps) {
+  const { steps, probes } = sample.trace;
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const step = steps[index];
+  const previous = steps[index - 1];
+  const isLast = index === steps.length - 1;
+  const note =
+    step.note ?? probes?.find((probe) => probe.line === step.line)?.note;
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      setIndex(index + 1);
+      setPlaying(index + 1 < steps.length - 1);
+    }, PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, index, steps.length]);
+
+  return (
+    <>
+      <CodeBlock
+        sample={sample}
+        lines={lines}
+        activeLine={step.line}
+        annotation={annotation}
+      />
+      <div className={styles.trace}>
+        <div className={styles.controls}>
+          <button
+            type="button"
+            onClick={() => {
+              setPlaying(false);
+              setIndex(index - 1);
+            }}
+            disabled={index === 0}
+          >
+            ← Back
+          </button>
+          <button
+            type="button"
+            aria-pressed={playing}
+            onClick={() => {
+              if (!playing && isLast) {
+                setIndex(0);
+              }
+              setPlaying(!playing);
+            }}
+            disabled={steps.length < 2}
+          >
+            {playing ? "Pause" : isLast ? "Replay" : "Play"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setPlaying(false);
+              setIndex(index + 1);
+            }}
+            disabled={isLast}
+          >
+            Step →
+          </button>
+          <span className={styles.position} aria-live="polite">
+            Step {index + 1} of {steps.length}, before line {step.line}
+          </span>
+        </div>
+
+        {note && <p className={styles.note}>{note}</p>}
+
+        {step.values && (
+          <dl className={styles.values}>
+            {Object.entries(step.values).map(([name, value]) => (
+              <div
+                key={name}
+                className={
+                  previous?.values?.[name] !== undefined &&
+                  previous.values[name] !== value
+                    ? styles.changed
+                    : undefined
+                }
+              >
+                <dt>
+                  <code>{name}</code>
+                </dt>
+                <dd>
+                  <code>{value}</code>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {step.arrays &&
+          Object.entries(step.arrays).map(([name, elements]) => (
+            <div key={name} className={styles.array}>
+              <code className={styles.arrayName}>{name}</code>
+              <ol start={0}>
+                {elements.map((element, at) => {
+                  const before = previous?.arrays?.[name]?.[at];
+                  return (
+                    <li
+                      key={at}
+                      className={
+                        before !== undefined && before !== element
+                          ? styles.changed
+                          : undefined
+                      }
+                    >
+                      <span className={styles.index}>[{at}]</span>
+                      <code>{element}</code>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          ))}
+      </div>
+    </>
+  );
+}
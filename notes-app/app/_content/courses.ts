@@ -0,0 +1,100 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parseRedirects } from "./redirects";
+import { parseTopics } from "./topics";
+import type { Course, CourseMetadata } from "./types";
+import {
+  checkKeys,
+  ContentError,
+  isRecord,
+  readYaml,
+  relative,
+  requireString,
+  SLUG,
+} from "./validate";
+
+/**
+ * Content lives in `content/courses`, one directory per course. Each holds a
+ * `course.yaml` with the course's hero text and page metadata, a `topics`
+ * directory (see `parseTopics`), and optionally a `redirects.yaml` (see
+ * `parseRedirects`). The directory name is the course's URL slug.
+ */
+const CONTENT_DIR = path.join(process.cwd(), "content", "courses");
+const COURSE_FILE = "course.yaml";
+
+const parseCourse = (dir: string, issues: string[]): Course | undefined => {
+  const slug = path.basename(dir);
+  if (!SLUG.test(slug)) {
+    issues.push(
+      `${relative(dir)}: course directory names must be lowercase slugs`,
+    );
+  }
+  const file = path.join(dir, COURSE_FILE);
+  if (!fs.existsSync(file)) {
+    issues.push(`${relative(dir)}: missing ${COURSE_FILE}`);
+    return undefined;
+  }
+  const raw = readYaml(file, issues);
+  if (!raw) {
+    return undefined;
+  }
+  const where = relative(file);
+  checkKeys(raw, ["title", "kicker", "lede", "metadata"], where, issues);
+
+  let metadata: CourseMetadata = { title: "", description: "" };
+  if (!isRecord(raw.metadata)) {
+    issues.push(`${where}: missing \`metadata\``);
+  } else {
+    const at = `${where} metadata`;
+    checkKeys(raw.metadata, ["title", "description"], at, issues);
+    metadata = {
+      title: requireString(raw.metadata, "title", at, issues),
+      description: requireString(raw.metadata, "description", at, issues),
+    };
+  }
+
+  const topics = parseTopics(path.join(dir, "topics"), issues);
+  return {
+    slug,
+    title: requireString(raw, "title", where, issues),
+    kicker: requireString(raw, "kicker", where, issues),
+    lede: requireString(raw, "lede", where, issues),
+    metadata,
+    topics,
+    redirects: parseRedirects(dir, topics, issues),
+  };
+};
+
+/**
+ * Reads and validates every course under `content/courses`. All problems are
+ * collected before throwing so a broken build reports them in one go.
+ */
+export function loadCourses(contentDir: string = CONTENT_DIR): Course[] {
+  const issues: string[] = [];
+  const courses = fs
+    .readdirSync(contentDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => path.join(contentDir, entry.name))
+    .sort()
+    .map((dir) => parseCourse(dir, issues))
+    .filter((course): course is Course => course !== undefined);
+
+  if (courses.length === 0) {
+    issues.push(`${relative(contentDir)}: no courses found`);
+  }
+  if (issues.length > 0) {
+    throw new ContentError(issues);
+  }
+  return courses;
+}
+
+let cached: Course[] | undefined;
+
+export function getCourses(): Course[] {
+  cached ??= loadCourses();
+  return cached;
+}
+
+export function getCourse(slug: string): Course | undefined {
+  return getCourses().find((course) => course.slug === slug);
+}
@@ -0,0 +1,12 @@
+/**
+ * The URL's fragment, decoded, or as written when it is not valid
+ * percent-encoding. Keep this module free of Node APIs.
+ */
+export function currentAnchor() {
+  const hash = window.location.hash.slice(1);
+  try {
+    return decodeURIComponent(hash);
+  } catch {
+    return hash;
+  }
+}
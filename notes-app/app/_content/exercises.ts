@@ -0,0 +1,103 @@
+import type { Exercise } from "./types";
+import {
+  checkKeys,
+  isRecord,
+  type Raw,
+  requireString,
+  requireStringList,
+} from "./validate";
+
+const EXERCISE_TYPES = [
+  "multiple-choice",
+  "predict-output",
+  "find-the-bug",
+] as const;
+
+const parseExercise = (
+  raw: unknown,
+  where: string,
+  issues: string[],
+): Exercise | undefined => {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: expected a mapping`);
+    return undefined;
+  }
+  const base = {
+    prompt: requireString(raw, "prompt", where, issues),
+    explanation: requireString(raw, "explanation", where, issues),
+  };
+
+  switch (raw.type) {
+    case "multiple-choice": {
+      checkKeys(
+        raw,
+        ["type", "prompt", "explanation", "choices", "answer"],
+        where,
+        issues,
+      );
+      const choices = requireStringList(raw, "choices", where, issues);
+      const answer = requireString(raw, "answer", where, issues);
+      if (answer && choices.length > 0 && !choices.includes(answer)) {
+        issues.push(`${where}: \`answer\` must be one of the \`choices\``);
+      }
+      return { type: raw.type, ...base, choices, answer };
+    }
+    case "predict-output": {
+      checkKeys(
+        raw,
+        ["type", "prompt", "explanation", "snippet", "answer"],
+        where,
+        issues,
+      );
+      return {
+        type: raw.type,
+        ...base,
+        snippet: requireString(raw, "snippet", where, issues).trimEnd(),
+        answer: requireString(raw, "answer", where, issues),
+      };
+    }
+    case "find-the-bug": {
+      checkKeys(
+        raw,
+        ["type", "prompt", "explanation", "snippet", "line"],
+        where,
+        issues,
+      );
+      const snippet = requireString(raw, "snippet", where, issues).trimEnd();
+      const lineCount = snippet.split("\n").length;
+      const line = raw.line;
+      if (!Number.isInteger(line) || (line as number) < 1) {
+        issues.push(`${where}: \`line\` must be a positive integer`);
+      } else if (snippet && (line as number) > lineCount) {
+        issues.push(
+          `${where}: \`line\` ${line} is past the end of the snippet (${lineCount} lines)`,
+        );
+      }
+      return { type: raw.type, ...base, snippet, line: line as number };
+    }
+    default:
+      issues.push(
+        `${where}: \`type\` must be one of ${EXERCISE_TYPES.join(", ")}`,
+      );
+      return undefined;
+  }
+};
+
+export const parseExercises = (
+  raw: Raw,
+  where: string,
+  issues: string[],
+): Exercise[] | undefined => {
+  if (raw.exercises === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(raw.exercises) || raw.exercises.length === 0) {
+    issues.push(`${where}: \`exercises\` must be a non-empty list`);
+    return undefined;
+  }
+  return raw.exercises
+    .map((exercise, index) =>
+      parseExercise(exercise, `${where} exercises[${index}]`, issues),
+    )
+    .filter((exercise): exercise is Exercise => exercise !== undefined);
+};
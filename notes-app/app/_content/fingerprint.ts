@@ -0,0 +1,12 @@
+/**
+ * FNV-1a, as a short and stable fingerprint of a piece of content: enough to
+ * notice that it changed since it was last seen. Keep this module free of
+ * Node APIs.
+ */
+export const fingerprint = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let at = 0; at < text.length; at += 1) {
+    hash = Math.imul(hash ^ text.charCodeAt(at), 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
@@ -0,0 +1,74 @@
+import { type InlineNode, parseInline } from "./markdown";
+import { getSubtopicEntries } from "./navigation";
+import type { Course, Note, Subtopic } from "./types";
+
+type CardSource = {
+  /** The title and page of the subtopic the note belongs to. */
+  subtopic: string;
+  href: string;
+};
+
+export type Flashcard = CardSource &
+  (
+    | {
+        /** Built from the note's `id`; keys its schedule. */
+        id: string;
+        kind: "question";
+        question: string;
+        answer: string;
+      }
+    | {
+        id: string;
+        kind: "cloze";
+        /** The note, shown with every code span reading `term` blanked. */
+        text: string;
+        term: string;
+      }
+  );
+
+/** Identifies a note across the whole site, and across edits to its text. */
+export const noteId = (course: Course, subtopic: Subtopic, note: Note) =>
+  `${course.slug}/${subtopic.id}/${note.id}`;
+
+/** The distinct code spans of a note, each of which makes a cloze card. */
+export function clozeTerms(text: string): string[] {
+  const terms = (nodes: InlineNode[]): string[] =>
+    nodes.flatMap((node) => {
+      if (node.type === "code") {
+        return [node.text];
+      }
+      return "children" in node ? terms(node.children) : [];
+    });
+  return [...new Set(terms(parseInline(text)))];
+}
+
+/**
+ * A note with a `question` makes one question-and-answer card; any other
+ * note makes one cloze card per distinct code span, and none without them.
+ */
+export function getFlashcards(course: Course): Flashcard[] {
+  return getSubtopicEntries(course).flatMap(({ subtopic, href }) =>
+    (subtopic.notes ?? []).flatMap((note): Flashcard[] => {
+      const id = noteId(course, subtopic, note);
+      const source = { subtopic: subtopic.title, href };
+      if (note.question) {
+        return [
+          {
+            ...source,
+            id,
+            kind: "question",
+            question: note.question,
+            answer: note.text,
+          },
+        ];
+      }
+      return clozeTerms(note.text).map((term, index) => ({
+        ...source,
+        id: `${id}/${index + 1}`,
+        kind: "cloze",
+        text: note.text,
+        term,
+      }));
+    }),
+  );
+}
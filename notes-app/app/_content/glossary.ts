@@ -0,0 +1,191 @@
+import path from "node:path";
+import { getCourses } from "./courses";
+import { slugify } from "./slugify";
+import type { Course, GlossaryTerm } from "./types";
+import {
+  checkKeys,
+  ContentError,
+  isRecord,
+  readYaml,
+  relative,
+  requireString,
+  requireStringList,
+} from "./validate";
+
+const GLOSSARY_FILE = path.join(process.cwd(), "content", "glossary.yaml");
+
+export type TextSegment = {
+  text: string;
+  /** Set when `text` is an occurrence of a glossary term. */
+  term?: GlossaryTerm;
+};
+
+const parseTerm = (
+  raw: unknown,
+  where: string,
+  issues: string[],
+): GlossaryTerm | undefined => {
+  if (!isRecord(raw)) {
+    issues.push(
+      `${where}: expected a mapping with \`term\` and \`definition\``,
+    );
+    return undefined;
+  }
+  checkKeys(raw, ["term", "aliases", "definition"], where, issues);
+  const term = requireString(raw, "term", where, issues);
+  return {
+    term,
+    slug: slugify(term),
+    aliases:
+      raw.aliases === undefined
+        ? []
+        : requireStringList(raw, "aliases", where, issues),
+    definition: requireString(raw, "definition", where, issues),
+  };
+};
+
+/** Reads and validates `content/glossary.yaml`. */
+export function loadGlossary(file: string = GLOSSARY_FILE): GlossaryTerm[] {
+  const issues: string[] = [];
+  const raw = readYaml(file, issues);
+  const where = relative(file);
+  let terms: GlossaryTerm[] = [];
+  if (raw) {
+    checkKeys(raw, ["terms"], where, issues);
+    if (!Array.isArray(raw.terms) || raw.terms.length === 0) {
+      issues.push(`${where}: \`terms\` must be a non-empty list`);
+    } else {
+      terms = raw.terms
+        .map((term, index) =>
+          parseTerm(term, `${where} terms[${index}]`, issues),
+        )
+        .filter((term): term is GlossaryTerm => term !== undefined);
+    }
+  }
+
+  const seen = new Set<string>();
+  const slugs = new Map<string, string>();
+  for (const term of terms) {
+    const other = slugs.get(term.slug);
+    if (other) {
+      issues.push(
+        `${where}: "${other}" and "${term.term}" would share the anchor #${term.slug}`,
+      );
+    }
+    slugs.set(term.slug, term.term);
+    for (const name of [term.term, ...term.aliases]) {
+      const key = name.toLowerCase();
+      if (key && seen.has(key)) {
+        issues.push(`${where}: "${name}" is listed more than once`);
+      }
+      seen.add(key);
+    }
+  }
+  if (issues.length > 0) {
+    throw new ContentError(issues);
+  }
+  return terms.sort((a, b) => a.term.localeCompare(b.term));
+}
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const matchers = new WeakMap<GlossaryTerm[], RegExp>();
+
+/** Longest names first, so "flexible array members" wins over shorter aliases. */
+const matcherFor = (terms: GlossaryTerm[]) => {
+  let matcher = matchers.get(terms);
+  if (!matcher) {
+    const names = terms
+      .flatMap((term) => [term.term, ...term.aliases])
+      .sort((a, b) => b.length - a.length)
+      .map(escape);
+    matcher = new RegExp(`(?<![\\w-])(?:${names.join("|")})(?![\\w-])`, "gi");
+    matchers.set(terms, matcher);
+  }
+  return matcher;
+};
+
+/**
+ * Splits `text` at the first occurrence of each glossary term. Code spans
+ * (`` `like this` ``) and references to subtopics (`[[id]]`) are left alone.
+ * Pass the same `linked` set for each piece of one text to link every term
+ * only once across them.
+ */
+export function linkTerms(
+  text: string,
+  terms: GlossaryTerm[],
+  linked = new Set<GlossaryTerm>(),
+): TextSegment[] {
+  const byName = new Map(
+    terms.flatMap((term) =>
+      [term.term, ...term.aliases].map((name) => [name.toLowerCase(), term]),
+    ),
+  );
+  const segments: TextSegment[] = [];
+  const pushText = (value: string) => {
+    const last = segments.at(-1);
+    if (last && !last.term) {
+      last.text += value;
+    } else if (value) {
+      segments.push({ text: value });
+    }
+  };
+
+  for (const part of text.split(/(`[^`]*`|\[\[[^\]]*\]\])/)) {
+    if (part.startsWith("`") || part.startsWith("[[")) {
+      pushText(part);
+      continue;
+    }
+    let position = 0;
+    for (const match of part.matchAll(matcherFor(terms))) {
+      const term = byName.get(match[0].toLowerCase());
+      if (!term || linked.has(term)) {
+        continue;
+      }
+      linked.add(term);
+      pushText(part.slice(position, match.index));
+      segments.push({ text: match[0], term });
+      position = match.index + match[0].length;
+    }
+    pushText(part.slice(position));
+  }
+  return segments;
+}
+
+/** Summaries and notes: the text that terms are linked in. */
+export const linkableTexts = (course: Course): string[] =>
+  course.topics.flatMap((topic) => [
+    topic.summary,
+    ...topic.subtopics.flatMap((subtopic) => [
+      subtopic.summary,
+      ...(subtopic.notes ?? []).map((note) => note.text),
+    ]),
+  ]);
+
+export function findUnusedTerms(
+  terms: GlossaryTerm[],
+  courses: Course[],
+): GlossaryTerm[] {
+  const used = new Set(
+    courses
+      .flatMap(linkableTexts)
+      .flatMap((text) => linkTerms(text, terms))
+      .map((segment) => segment.term),
+  );
+  return terms.filter((term) => !used.has(term));
+}
+
+let cached: GlossaryTerm[] | undefined;
+
+/** Loaded once per build, warning about terms that no summary or note uses. */
+export function getGlossary(): GlossaryTerm[] {
+  if (!cached) {
+    cached = loadGlossary();
+    for (const term of findUnusedTerms(cached, getCourses())) {
+      console.warn(
+        `Glossary term "${term.term}" never appears in a summary or note.`,
+      );
+    }
+  }
+  return cached;
+}
@@ -0,0 +1,100 @@
+import type { CodeLanguage } from "./types";
+
+export type TokenKind =
+  | "plain"
+  | "comment"
+  | "preprocessor"
+  | "string"
+  | "keyword"
+  | "type"
+  | "number"
+  | "function";
+
+export type Token = {
+  kind: TokenKind;
+  text: string;
+};
+
+const KEYWORDS = new Set(
+  (
+    "auto break case const continue default do else enum extern for " +
+    "goto if inline register restrict return sizeof static struct " +
+    "switch typedef union volatile while _Alignas _Alignof _Generic " +
+    "_Noreturn _Static_assert _Thread_local NULL true false"
+  ).split(" "),
+);
+
+const TYPES = new Set(
+  (
+    "char short int long float double signed unsigned void bool _Bool " +
+    "size_t ptrdiff_t FILE"
+  ).split(" "),
+);
+
+// Order matters: comments and literals must win over identifiers.
+const C_TOKEN = new RegExp(
+  [
+    String.raw`(?<comment>\/\*[\s\S]*?\*\/|\/\/[^\n]*)`,
+    String.raw`(?<preprocessor>^[ \t]*#[^\n]*)`,
+    String.raw`(?<string>"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')`,
+    String.raw`(?<number>\b(?:0[xX][0-9a-fA-F]+|\d+(?:\.\d*)?(?:[eE][+-]?\d+)?)[uUlLfF]*\b)`,
+    String.raw`(?<word>[A-Za-z_]\w*)`,
+  ].join("|"),
+  "gm",
+);
+
+function wordKind(word: string, rest: string): TokenKind {
+  if (KEYWORDS.has(word)) {
+    return "keyword";
+  }
+  if (TYPES.has(word) || /^[A-Z]\w*[a-z]\w*$/.test(word)) {
+    return "type";
+  }
+  return /^\s*\(/.test(rest) ? "function" : "plain";
+}
+
+function tokenizeC(source: string): Token[] {
+  const tokens: Token[] = [];
+  let last = 0;
+  for (const match of source.matchAll(C_TOKEN)) {
+    const at = match.index ?? 0;
+    if (at > last) {
+      tokens.push({ kind: "plain", text: source.slice(last, at) });
+    }
+    const groups = match.groups ?? {};
+    const kind: TokenKind = groups.word
+      ? wordKind(groups.word, source.slice(at + match[0].length))
+      : ((Object.keys(groups).find((name) => groups[name] !== undefined) ??
+          "plain") as TokenKind);
+    tokens.push({ kind, text: match[0] });
+    last = at + match[0].length;
+  }
+  if (last < source.length) {
+    tokens.push({ kind: "plain", text: source.slice(last) });
+  }
+  return tokens;
+}
+
+/**
+ * Splits highlighted source into lines. Tokens that span several lines, such
+ * as block comments, are cut at each newline so every line renders on its own.
+ */
+export function highlightLines(
+  source: string,
+  language: CodeLanguage,
+): Token[][] {
+  const tokens: Token[] =
+    language === "c" ? tokenizeC(source) : [{ kind: "plain", text: source }];
+  const lines: Token[][] = [[]];
+  for (const token of tokens) {
+    token.text.split("\n").forEach((part, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (part !== "") {
+        lines[lines.length - 1].push({ kind: token.kind, text: part });
+      }
+    });
+  }
+  return lines;
+}
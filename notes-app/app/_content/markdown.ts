@@ -0,0 +1,215 @@
+/**
+ * The inline Markdown that summaries and notes may use: `code`, *emphasis*,
+ * **strong**, [links](https://example.com), and backslash escapes. Nothing is
+ * ever read as HTML; `<b>` stays text. Keep this module free of Node APIs.
+ */
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "emphasis" | "strong"; children: InlineNode[] }
+  | { type: "link"; href: string; children: InlineNode[] };
+
+const ESCAPABLE = /[\\`*_[\]()#!<>-]/;
+const LINK = /^\[([^[\]]+)\]\(([^()\s]+)\)/;
+/** Browsers read `//host` and `/\host` as other sites, not as paths. */
+const SAFE_HREF = /^(?:https?:\/\/|mailto:|\/(?![/\\])|#)/i;
+
+const isSpace = (character: string | undefined) =>
+  character === undefined || /\s/.test(character);
+
+const isWord = (character: string | undefined) =>
+  character !== undefined && /\w/.test(character);
+
+const backtickRun = (text: string, start: number) => {
+  let end = start;
+  while (text[end] === "`") {
+    end += 1;
+  }
+  return end - start;
+};
+
+/** Where the backtick run at `start` closes, or -1 if it never does. */
+const closingBackticks = (text: string, start: number) => {
+  const run = backtickRun(text, start);
+  const pattern = /`+/g;
+  pattern.lastIndex = start + run;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match[0].length === run) {
+      return match.index;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Where `delimiter` closes an emphasis opened at `start`, skipping code spans
+ * and references. A closing `_` must not touch a word character after it, so
+ * identifiers such as `ARRAY_LEN` never start or end emphasis.
+ */
+const closingDelimiter = (text: string, start: number, delimiter: string) => {
+  for (let at = start + delimiter.length; at < text.length; at += 1) {
+    if (text[at] === "\\") {
+      at += 1;
+    } else if (text[at] === "`") {
+      const end = closingBackticks(text, at);
+      if (end !== -1) {
+        at = end;
+      }
+    } else if (text.startsWith("[[", at)) {
+      const end = text.indexOf("]]", at);
+      if (end !== -1) {
+        at = end + 1;
+      }
+    } else if (
+      text.startsWith(delimiter, at) &&
+      at > start + delimiter.length &&
+      !isSpace(text[at - 1]) &&
+      !(delimiter === "_" && isWord(text[at + 1])) &&
+      // `**` closes strong, not two emphases.
+      !(delimiter === "*" && text[at + 1] === "*")
+    ) {
+      return at;
+    }
+  }
+  return -1;
+};
+
+/** Parses a summary or note; `[[id]]` references are left in the text. */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: "text", text: buffer });
+      buffer = "";
+    }
+  };
+
+  for (let at = 0; at < text.length; ) {
+    const character = text[at];
+
+    if (character === "\\" && ESCAPABLE.test(text[at + 1] ?? "")) {
+      buffer += text[at + 1];
+      at += 2;
+      continue;
+    }
+
+    if (character === "`") {
+      const end = closingBackticks(text, at);
+      const run = backtickRun(text, at);
+      if (end === -1) {
+        buffer += text.slice(at, at + run);
+        at += run;
+        continue;
+      }
+      flush();
+      const code = text.slice(at + run, end);
+      nodes.push({
+        type: "code",
+        // `` ` `x` ` `` shows `x`: one space inside each end is padding.
+        text: /^ [\s\S]*[^ ][\s\S]* $/.test(code) ? code.slice(1, -1) : code,
+      });
+      at = end + run;
+      continue;
+    }
+
+    if (text.startsWith("[[", at)) {
+      const end = text.indexOf("]]", at);
+      const stop = end === -1 ? at + 2 : end + 2;
+      buffer += text.slice(at, stop);
+      at = stop;
+      continue;
+    }
+
+    const link = character === "[" ? LINK.exec(text.slice(at)) : null;
+    if (link) {
+      const [whole, label, href] = link;
+      if (SAFE_HREF.test(href)) {
+        flush();
+        nodes.push({ type: "link", href, children: parseInline(label) });
+      } else {
+        buffer += label;
+      }
+      at += whole.length;
+      continue;
+    }
+
+    const delimiter = text.startsWith("**", at)
+      ? "**"
+      : character === "*" || character === "_"
+        ? character
+        : undefined;
+    if (
+      delimiter &&
+      !isSpace(text[at + delimiter.length]) &&
+      !(delimiter === "_" && isWord(text[at - 1]))
+    ) {
+      const end = closingDelimiter(text, at, delimiter);
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: delimiter === "**" ? "strong" : "emphasis",
+          children: parseInline(text.slice(at + delimiter.length, end)),
+        });
+        at = end + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += character;
+    at += 1;
+  }
+  flush();
+  return nodes;
+}
+
+const inlineText = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) =>
+      "children" in node ? inlineText(node.children) : node.text,
+    )
+    .join("");
+
+/**
+ * The text a reader sees, for the search index, page descriptions and
+ * previews; references are left for `plainText` to resolve.
+ */
+export const stripMarkdown = (text: string) => inlineText(parseInline(text));
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Inline Markdown as HTML, for documents built outside React such as the
+ * EPUB. Links into the site keep only their text, since they have nowhere to
+ * go there; `code` can change how code spans are written.
+ */
+export const inlineHtml = (
+  nodes: InlineNode[],
+  code = (text: string) => `<code>${escapeHtml(text)}</code>`,
+): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeHtml(node.text);
+        case "code":
+          return code(node.text);
+        case "emphasis":
+          return `<em>${inlineHtml(node.children, code)}</em>`;
+        case "strong":
+          return `<strong>${inlineHtml(node.children, code)}</strong>`;
+        case "link": {
+          const children = inlineHtml(node.children, code);
+          return /^(?:https?|mailto):/i.test(node.href)
+            ? `<a href="${escapeHtml(node.href)}">${children}</a>`
+            : children;
+        }
+      }
+    })
+    .join("");
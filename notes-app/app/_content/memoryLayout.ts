@@ -0,0 +1,17 @@
+/**
+ * Element sizes and limits shared between the content parser and the memory
+ * layout visualizer in the browser. Keep this module free of Node APIs.
+ */
+import type { ElementType } from "./types";
+
+export const ELEMENT_TYPES: readonly ElementType[] = ["char", "int", "double"];
+
+/** Sizes on the usual 32- and 64-bit ABIs, which the notes assume. */
+export const ELEMENT_SIZES: Record<ElementType, number> = {
+  char: 1,
+  int: 4,
+  double: 8,
+};
+
+/** Upper bounds that keep the drawing readable, per dimension. */
+export const MAX_DIMENSIONS = [[16], [6, 8]] as const;
@@ -0,0 +1,284 @@
+import { getCourse, getCourses } from "./courses";
+import type { PaletteEntry } from "./palette";
+import { referencedIds } from "./references";
+import { slugify } from "./slugify";
+import type {
+  CodeSample,
+  Course,
+  GlossaryTerm,
+  Subtopic,
+  Topic,
+} from "./types";
+
+export type TopicEntry = {
+  course: Course;
+  topic: Topic;
+  slug: string;
+  href: string;
+};
+
+export type SubtopicEntry = {
+  course: Course;
+  topic: Topic;
+  subtopic: Subtopic;
+  topicSlug: string;
+  slug: string;
+  href: string;
+};
+
+/** A route a topic (no `slug`) or subtopic used to have. */
+export type Redirect = {
+  course: Course;
+  topicSlug: string;
+  slug?: string;
+  /** Where the topic or subtopic lives now. */
+  href: string;
+};
+
+export type Neighbors<T> = {
+  previous?: T;
+  next?: T;
+};
+
+/** The course that used to be the whole site, before courses existed. */
+export const LEGACY_COURSE = "arrays";
+
+export const courseHref = (course: Course) => `/courses/${course.slug}`;
+
+export const topicHref = (course: Course, topic: Topic) =>
+  `${courseHref(course)}/topics/${topic.id}`;
+
+export const subtopicHref = (
+  course: Course,
+  topic: Topic,
+  subtopic: Subtopic,
+) => `${topicHref(course, topic)}/${subtopic.id}`;
+
+/** Anchor of a code sample's figure, from its subtopic and caption. */
+export const sampleAnchor = (subtopic: Subtopic, sample: CodeSample) =>
+  `${subtopic.id}-${slugify(sample.caption)}`;
+
+export const GLOSSARY_HREF = "/glossary";
+
+export const glossaryHref = (term: GlossaryTerm) =>
+  `${GLOSSARY_HREF}#${term.slug}`;
+
+/** The whole course on one page, laid out for printing. */
+export const coursePrintHref = (course: Course) => `${courseHref(course)}/print`;
+
+/** Archives of a course's or topic's C samples, with a Makefile. */
+export const courseDownloadHref = (course: Course) =>
+  `${courseHref(course)}/download`;
+
+export const topicDownloadHref = (course: Course, topic: Topic) =>
+  `${courseDownloadHref(course)}/${topic.id}`;
+
+/** Flashcards made from the course's notes, and the same deck for Anki. */
+export const courseReviewHref = (course: Course) =>
+  `${courseHref(course)}/review`;
+
+export const courseAnkiHref = (course: Course) =>
+  `${courseReviewHref(course)}/anki`;
+
+/** Keys reading progress; ids are only unique within a course. */
+export const progressKey = (course: Course, subtopic: Subtopic) =>
+  `${course.slug}/${subtopic.id}`;
+
+export function getTopicEntries(course: Course): TopicEntry[] {
+  return course.topics.map((topic) => ({
+    course,
+    topic,
+    slug: topic.id,
+    href: topicHref(course, topic),
+  }));
+}
+
+/** Every subtopic of a course in reading order, across all its topics. */
+export function getSubtopicEntries(course: Course): SubtopicEntry[] {
+  return course.topics.flatMap((topic) =>
+    topic.subtopics.map((subtopic) => ({
+      course,
+      topic,
+      subtopic,
+      topicSlug: topic.id,
+      slug: subtopic.id,
+      href: subtopicHref(course, topic, subtopic),
+    })),
+  );
+}
+
+/** Everything the command palette can jump to, in reading order. */
+export function getPaletteEntries(course: Course): PaletteEntry[] {
+  return course.topics.flatMap((topic): PaletteEntry[] => [
+    { kind: "topic", title: topic.title, href: topicHref(course, topic) },
+    ...topic.subtopics.flatMap((subtopic): PaletteEntry[] => {
+      const href = subtopicHref(course, topic, subtopic);
+      return [
+        { kind: "subtopic", title: subtopic.title, context: topic.title, href },
+        ...(subtopic.code ?? []).map((sample): PaletteEntry => ({
+          kind: "sample",
+          title: sample.caption,
+          context: subtopic.title,
+          href: `${href}#${sampleAnchor(subtopic, sample)}`,
+        })),
+      ];
+    }),
+  ]);
+}
+
+export function getAllTopicEntries(): TopicEntry[] {
+  return getCourses().flatMap(getTopicEntries);
+}
+
+export function getAllSubtopicEntries(): SubtopicEntry[] {
+  return getCourses().flatMap(getSubtopicEntries);
+}
+
+export function findTopic(
+  courseSlug: string,
+  slug: string,
+): TopicEntry | undefined {
+  const course = getCourse(courseSlug);
+  return course && getTopicEntries(course).find((entry) => entry.slug === slug);
+}
+
+export function findSubtopic(
+  courseSlug: string,
+  topicSlug: string,
+  slug: string,
+): SubtopicEntry | undefined {
+  const course = getCourse(courseSlug);
+  return (
+    course &&
+    getSubtopicEntries(course).find(
+      (entry) => entry.topicSlug === topicSlug && entry.slug === slug,
+    )
+  );
+}
+
+export function findSubtopicById(
+  course: Course,
+  id: string,
+): SubtopicEntry | undefined {
+  return getSubtopicEntries(course).find((entry) => entry.subtopic.id === id);
+}
+
+/** Subtopics whose `seeAlso` or notes point to `subtopic`, in reading order. */
+export function getBacklinks(
+  course: Course,
+  subtopic: Subtopic,
+): SubtopicEntry[] {
+  return getSubtopicEntries(course).filter((entry) =>
+    referencedIds(entry.subtopic).includes(subtopic.id),
+  );
+}
+
+export function getNeighbors<T>(
+  entries: T[],
+  isCurrent: (entry: T) => boolean,
+): Neighbors<T> {
+  const index = entries.findIndex(isCurrent);
+  if (index === -1) {
+    return {};
+  }
+  return { previous: entries[index - 1], next: entries[index + 1] };
+}
+
+const formerSlugs = (redirects: Record<string, string>, id: string) =>
+  Object.keys(redirects).filter((slug) => redirects[slug] === id);
+
+/**
+ * Every route that `redirects.yaml` keeps alive: a topic's old slugs, and
+ * each combination of old and current slugs for a subtopic and its topic.
+ */
+export function getRedirects(course: Course): Redirect[] {
+  const redirects: Redirect[] = [];
+  for (const topic of course.topics) {
+    const href = topicHref(course, topic);
+    const topicSlugs = [
+      topic.id,
+      ...formerSlugs(course.redirects.topics, topic.id),
+    ];
+    for (const topicSlug of topicSlugs.slice(1)) {
+      redirects.push({ course, topicSlug, href });
+    }
+    for (const subtopic of topic.subtopics) {
+      const href = subtopicHref(course, topic, subtopic);
+      const slugs = [
+        subtopic.id,
+        ...formerSlugs(course.redirects.subtopics, subtopic.id),
+      ];
+      for (const topicSlug of topicSlugs) {
+        for (const slug of slugs) {
+          if (topicSlug !== topic.id || slug !== subtopic.id) {
+            redirects.push({ course, topicSlug, slug, href });
+          }
+        }
+      }
+    }
+  }
+  return redirects;
+}
+
+export function getAllRedirects(): Redirect[] {
+  return getCourses().flatMap(getRedirects);
+}
+
+export function findRedirect(
+  courseSlug: string,
+  topicSlug: string,
+  slug?: string,
+): Redirect | undefined {
+  const course = getCourse(courseSlug);
+  return (
+    course &&
+    getRedirects(course).find(
+      (redirect) => redirect.topicSlug === topicSlug && redirect.slug === slug,
+    )
+  );
+}
+
+/**
+ * Maps the anchors of the old single-page layout (`#1-array-fundamentals`,
+ * `#1-1-definition-and-characteristics`) to their routes so shared links keep
+ * working. They are the same old slugs `redirects.yaml` lists.
+ */
+export function getLegacyAnchorRoutes(): Record<string, string> {
+  const course = getCourse(LEGACY_COURSE);
+  const routes: Record<string, string> = {};
+  if (!course) {
+    return routes;
+  }
+  for (const entry of getTopicEntries(course)) {
+    for (const slug of formerSlugs(course.redirects.topics, entry.slug)) {
+      routes[slug] = entry.href;
+    }
+  }
+  for (const entry of getSubtopicEntries(course)) {
+    for (const slug of formerSlugs(course.redirects.subtopics, entry.slug)) {
+      routes[slug] = entry.href;
+    }
+  }
+  return routes;
+}
+
+/**
+ * Maps the progress keys saved before subtopics had ids, which used the slug
+ * of the title at the time, to the `progressKey` that replaces each.
+ */
+export function getLegacyProgressKeys(course: Course): Record<string, string> {
+  const keys: Record<string, string> = {};
+  for (const { subtopic } of getSubtopicEntries(course)) {
+    const key = progressKey(course, subtopic);
+    const slugs = [
+      slugify(subtopic.title),
+      ...formerSlugs(course.redirects.subtopics, subtopic.id),
+    ];
+    for (const slug of slugs) {
+      if (`${course.slug}/${slug}` !== key) {
+        keys[`${course.slug}/${slug}`] = key;
+      }
+    }
+  }
+  return keys;
+}
@@ -0,0 +1,119 @@
+/**
+ * Fuzzy matching for the command palette, which runs in the browser. Keep
+ * this module free of Node APIs.
+ */
+import type { Segment } from "./search";
+
+export type PaletteEntry = {
+  kind: "topic" | "subtopic" | "sample";
+  title: string;
+  /** Where the entry lives, e.g. the subtopic of a code sample. */
+  context?: string;
+  href: string;
+};
+
+export type PaletteMatch = {
+  entry: PaletteEntry;
+  /** The title, split into matched and unmatched runs. */
+  title: Segment[];
+};
+
+const WORD_START_BONUS = 8;
+const CONSECUTIVE_BONUS = 5;
+const KIND_BONUS: Record<PaletteEntry["kind"], number> = {
+  topic: 2,
+  subtopic: 1,
+  sample: 0,
+};
+
+const isWordStart = (text: string, at: number) =>
+  at === 0 || !/[a-z0-9]/i.test(text[at - 1]);
+
+/**
+ * Matches the query's characters in order anywhere in `text`, preferring the
+ * starts of words, so "mcr" finds "malloc, calloc, and realloc". Returns the
+ * score and the matched positions, or `undefined` when some character is
+ * missing. Spaces in the query are ignored.
+ */
+export function fuzzyMatch(
+  query: string,
+  text: string,
+): { score: number; positions: number[] } | undefined {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  const positions: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const character of needle) {
+    // Prefer the next word start holding the character over the nearest one.
+    let at = haystack.indexOf(character, from);
+    for (
+      let candidate = at;
+      candidate !== -1;
+      candidate = haystack.indexOf(character, candidate + 1)
+    ) {
+      if (isWordStart(text, candidate)) {
+        at = positions.at(-1) === at - 1 ? at : candidate;
+        break;
+      }
+    }
+    if (at === -1) {
+      return undefined;
+    }
+    score += 1;
+    if (isWordStart(text, at)) {
+      score += WORD_START_BONUS;
+    }
+    if (positions.at(-1) === at - 1) {
+      score += CONSECUTIVE_BONUS;
+    }
+    positions.push(at);
+    from = at + 1;
+  }
+  // Among equal matches, shorter titles are closer to what was typed.
+  return { score: score - text.length / 100, positions };
+}
+
+const split = (text: string, positions: number[]): Segment[] => {
+  const matched = new Set(positions);
+  const segments: Segment[] = [];
+  [...text].forEach((character, at) => {
+    const match = matched.has(at);
+    const last = segments.at(-1);
+    if (last && last.match === match) {
+      last.text += character;
+    } else {
+      segments.push({ text: character, match });
+    }
+  });
+  return segments;
+};
+
+/** The best matches for `query`; every topic and subtopic when it is empty. */
+export function rankEntries(
+  entries: PaletteEntry[],
+  query: string,
+  limit = 12,
+): PaletteMatch[] {
+  if (query.trim() === "") {
+    return entries
+      .filter((entry) => entry.kind !== "sample")
+      .map((entry) => ({ entry, title: [{ text: entry.title, match: false }] }));
+  }
+  return entries
+    .flatMap((entry) => {
+      const match = fuzzyMatch(query, entry.title);
+      return match
+        ? [
+            {
+              entry,
+              score: match.score + KIND_BONUS[entry.kind],
+              title: split(entry.title, match.positions),
+            },
+          ]
+        : [];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ entry, title }) => ({ entry, title }));
+}
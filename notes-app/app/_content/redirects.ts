@@ -0,0 +1,88 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Redirects, Topic } from "./types";
+import {
+  checkKeys,
+  isRecord,
+  readYaml,
+  relative,
+  SLUG,
+  type Raw,
+} from "./validate";
+
+const REDIRECTS_FILE = "redirects.yaml";
+
+const parseMap = (
+  raw: Raw,
+  key: keyof Redirects,
+  ids: Set<string>,
+  where: string,
+  issues: string[],
+): Record<string, string> => {
+  const value = raw[key];
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecord(value)) {
+    issues.push(`${where}: \`${key}\` must map old slugs to ids`);
+    return {};
+  }
+  const map: Record<string, string> = {};
+  for (const [slug, id] of Object.entries(value)) {
+    if (!SLUG.test(slug)) {
+      issues.push(`${where}: "${slug}" in \`${key}\` is not a slug`);
+    } else if (ids.has(slug)) {
+      issues.push(
+        `${where}: "${slug}" in \`${key}\` is a current id, so it would never redirect`,
+      );
+    } else if (typeof id !== "string" || !ids.has(id)) {
+      issues.push(
+        `${where}: "${slug}" in \`${key}\` points to unknown id "${String(id)}"`,
+      );
+    } else {
+      map[slug] = id;
+    }
+  }
+  return map;
+};
+
+/**
+ * Reads a course's optional `redirects.yaml`. Add an entry whenever an `id`
+ * changes, so old links keep working.
+ */
+export function parseRedirects(
+  courseDir: string,
+  topics: Topic[],
+  issues: string[],
+): Redirects {
+  const file = path.join(courseDir, REDIRECTS_FILE);
+  if (!fs.existsSync(file)) {
+    return { topics: {}, subtopics: {} };
+  }
+  const raw = readYaml(file, issues);
+  if (!raw) {
+    return { topics: {}, subtopics: {} };
+  }
+  const where = relative(file);
+  checkKeys(raw, ["topics", "subtopics"], where, issues);
+  return {
+    topics: parseMap(
+      raw,
+      "topics",
+      new Set(topics.map((topic) => topic.id)),
+      where,
+      issues,
+    ),
+    subtopics: parseMap(
+      raw,
+      "subtopics",
+      new Set(
+        topics.flatMap((topic) =>
+          topic.subtopics.map((subtopic) => subtopic.id),
+        ),
+      ),
+      where,
+      issues,
+    ),
+  };
+}
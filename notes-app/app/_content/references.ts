@@ -0,0 +1,55 @@
+import type { Subtopic } from "./types";
+
+/** `[[subtopic-id]]`, or `[[subtopic-id|link text]]` to override the title. */
+const REFERENCE = /\[\[([^\]|]*)(?:\|([^\]]*))?\]\]/g;
+
+export type TextPart =
+  | { text: string }
+  | {
+      /** The `id` of the subtopic the reference points to. */
+      id: string;
+      label?: string;
+    };
+
+/** Splits a note at its references to other subtopics. */
+export function splitReferences(text: string): TextPart[] {
+  const parts: TextPart[] = [];
+  let position = 0;
+  for (const match of text.matchAll(REFERENCE)) {
+    if (match.index > position) {
+      parts.push({ text: text.slice(position, match.index) });
+    }
+    const [, id, label] = match;
+    parts.push(
+      label ? { id: id.trim(), label: label.trim() } : { id: id.trim() },
+    );
+    position = match.index + match[0].length;
+  }
+  if (position < text.length) {
+    parts.push({ text: text.slice(position) });
+  }
+  return parts;
+}
+
+/** Replaces each reference with its label, or the title `titleOf` returns. */
+export const plainText = (
+  text: string,
+  titleOf: (id: string) => string | undefined,
+) =>
+  splitReferences(text)
+    .map((part) =>
+      "text" in part ? part.text : (part.label ?? titleOf(part.id) ?? part.id),
+    )
+    .join("");
+
+/** Every subtopic `subtopic` points to, through `seeAlso` or its notes. */
+export const referencedIds = (subtopic: Subtopic): string[] => [
+  ...new Set([
+    ...(subtopic.seeAlso ?? []),
+    ...(subtopic.notes ?? []).flatMap((note) =>
+      splitReferences(note.text).flatMap((part) =>
+        "id" in part ? [part.id] : [],
+      ),
+    ),
+  ]),
+];
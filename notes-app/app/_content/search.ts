@@ -0,0 +1,125 @@
+/**
+ * Search index shared between the build (which creates it) and the browser
+ * (which queries it). Keep this module free of Node APIs.
+ */
+
+export type SearchField = "title" | "summary" | "note" | "code";
+
+export type SearchDocument = {
+  href: string;
+  /** Where the text came from, e.g. "4.2 Searching · Linear Search Returning Index". */
+  label: string;
+  field: SearchField;
+  text: string;
+};
+
+export type SearchIndex = {
+  documents: SearchDocument[];
+  /** Lowercased token to the indices of the documents containing it. */
+  tokens: Record<string, number[]>;
+};
+
+export type Segment = {
+  text: string;
+  match: boolean;
+};
+
+export type SearchHit = {
+  document: SearchDocument;
+  snippet: Segment[];
+};
+
+const FIELD_WEIGHT: Record<SearchField, number> = {
+  title: 4,
+  summary: 3,
+  note: 2,
+  code: 1,
+};
+
+const SNIPPET_RADIUS = 60;
+
+/** Identifiers keep their underscores so `ARRAY_LEN` is one token. */
+export const tokenize = (text: string) =>
+  text.toLowerCase().match(/[a-z0-9_]+/g) ?? [];
+
+export function createSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const tokens: Record<string, number[]> = {};
+  documents.forEach((document, index) => {
+    for (const token of new Set(tokenize(document.text))) {
+      (tokens[token] ??= []).push(index);
+    }
+  });
+  return { documents, tokens };
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function highlight(text: string, terms: string[]): Segment[] {
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return text
+    .split(pattern)
+    .filter((part) => part !== "")
+    .map((part) => ({
+      text: part,
+      match: terms.includes(part.toLowerCase()),
+    }));
+}
+
+function makeSnippet(document: SearchDocument, terms: string[]): Segment[] {
+  const lower = document.text.toLowerCase();
+  const first = Math.min(
+    ...terms.map((term) => lower.indexOf(term)).filter((at) => at !== -1),
+  );
+
+  if (document.field === "code") {
+    const lineStart = document.text.lastIndexOf("\n", first) + 1;
+    const lineEnd = document.text.indexOf("\n", first);
+    const line = document.text
+      .slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+      .trim();
+    return highlight(line, terms);
+  }
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(document.text.length, first + SNIPPET_RADIUS * 2);
+  const excerpt =
+    (start > 0 ? "…" : "") +
+    document.text.slice(start, end) +
+    (end < document.text.length ? "…" : "");
+  return highlight(excerpt, terms);
+}
+
+/**
+ * Returns documents containing every query term, where a term matches any
+ * token it is a prefix of. Titles rank above summaries, notes, and code.
+ */
+export function search(
+  index: SearchIndex,
+  query: string,
+  limit = 20,
+): SearchHit[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const tokens = Object.keys(index.tokens);
+  let matches: Set<number> | undefined;
+  for (const term of terms) {
+    const found = new Set(
+      tokens
+        .filter((token) => token.startsWith(term))
+        .flatMap((token) => index.tokens[token]),
+    );
+    matches = matches
+      ? new Set([...matches].filter((at) => found.has(at)))
+      : found;
+  }
+
+  return [...(matches ?? [])]
+    .map((at) => index.documents[at])
+    .sort((a, b) => FIELD_WEIGHT[b.field] - FIELD_WEIGHT[a.field])
+    .slice(0, limit)
+    .map((document) => ({ document, snippet: makeSnippet(document, terms) }));
+}
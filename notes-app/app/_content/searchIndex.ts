@@ -0,0 +1,64 @@
+import {
+  findSubtopicById,
+  sampleAnchor,
+  subtopicHref,
+  topicHref,
+} from "./navigation";
+import { stripMarkdown } from "./markdown";
+import { plainText } from "./references";
+import {
+  createSearchIndex,
+  type SearchDocument,
+  type SearchIndex,
+} from "./search";
+import type { Course } from "./types";
+import { expandVariants } from "./variants";
+
+export function buildSearchIndex(course: Course): SearchIndex {
+  const documents: SearchDocument[] = [];
+  const titleOf = (id: string) => findSubtopicById(course, id)?.subtopic.title;
+
+  for (const topic of course.topics) {
+    const href = topicHref(course, topic);
+    documents.push(
+      { href, label: topic.title, field: "title", text: topic.title },
+      {
+        href,
+        label: topic.title,
+        field: "summary",
+        text: stripMarkdown(topic.summary),
+      },
+    );
+
+    for (const subtopic of topic.subtopics) {
+      const href = subtopicHref(course, topic, subtopic);
+      const label = subtopic.title;
+      documents.push(
+        { href, label, field: "title", text: subtopic.title },
+        {
+          href,
+          label,
+          field: "summary",
+          text: stripMarkdown(subtopic.summary),
+        },
+        ...(subtopic.notes ?? []).map((note) => ({
+          href,
+          label,
+          field: "note" as const,
+          text: plainText(stripMarkdown(note.text), titleOf),
+        })),
+        // Variants share their sample's figure, so they link to its anchor.
+        ...(subtopic.code ?? []).flatMap((sample) =>
+          expandVariants(sample).map((program) => ({
+            href: `${href}#${sampleAnchor(subtopic, sample)}`,
+            label: `${label} · ${program.caption}`,
+            field: "code" as const,
+            text: program.content,
+          })),
+        ),
+      );
+    }
+  }
+
+  return createSearchIndex(documents);
+}
@@ -0,0 +1,35 @@
+/**
+ * C standard tags, shared between the content parser, the verifier, and the
+ * standard filter in the browser. Keep this module free of Node APIs.
+ */
+import type { CodeSample, CStandard, Subtopic } from "./types";
+
+export const STANDARDS: readonly CStandard[] = [
+  "C89",
+  "C99",
+  "C11",
+  "C17",
+  "C23",
+];
+
+/** `c2x` is what GCC 12 and Clang 15 call C23; newer releases accept it too. */
+export const STD_FLAGS: Record<CStandard, string> = {
+  C89: "-std=c89",
+  C99: "-std=c99",
+  C11: "-std=c11",
+  C17: "-std=c17",
+  C23: "-std=c2x",
+};
+
+/** Whether content tagged `standard` is valid under `target`. */
+export const isValidIn = (standard: CStandard, target: CStandard) =>
+  STANDARDS.indexOf(standard) <= STANDARDS.indexOf(target);
+
+/**
+ * Untagged samples take their subtopic's tag, and untagged subtopics are plain
+ * C89. The verifier proves the result for every C sample.
+ */
+export const sampleStandard = (
+  subtopic: Subtopic,
+  sample: CodeSample,
+): CStandard => sample.standard ?? subtopic.standard ?? "C89";
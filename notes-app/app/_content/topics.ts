@@ -0,0 +1,601 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parseExercises } from "./exercises";
+import { ELEMENT_TYPES, MAX_DIMENSIONS } from "./memoryLayout";
+import { referencedIds } from "./references";
+import { slugify } from "./slugify";
+import { isValidIn, STANDARDS } from "./standards";
+import { parseTrace } from "./traces";
+import type {
+  CodeLanguage,
+  CodeSample,
+  CStandard,
+  ElementType,
+  HighlightedLine,
+  MemoryLayout,
+  Note,
+  SampleVariant,
+  SampleVerification,
+  Subtopic,
+  Topic,
+} from "./types";
+import {
+  checkKeys,
+  isRecord,
+  type Raw,
+  readYaml,
+  relative,
+  requireSlug,
+  requireString,
+  requireStringList,
+} from "./validate";
+
+const TOPIC_FILE = "topic.yaml";
+const LANGUAGES: readonly CodeLanguage[] = ["c", "text"];
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const parseStandard = (raw: Raw, where: string, issues: string[]) => {
+  if (raw.standard === undefined) {
+    return undefined;
+  }
+  if (!STANDARDS.includes(raw.standard as CStandard)) {
+    issues.push(
+      `${where}: \`standard\` must be one of ${STANDARDS.join(", ")}`,
+    );
+    return undefined;
+  }
+  return raw.standard as CStandard;
+};
+
+/** Each note needs an `id` unique within its subtopic. */
+const parseNotes = (raw: Raw, where: string, issues: string[]) => {
+  if (raw.notes === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(raw.notes)) {
+    issues.push(`${where}: \`notes\` must be a list`);
+    return undefined;
+  }
+  const notes: Note[] = [];
+  raw.notes.forEach((entry: unknown, index) => {
+    const at = `${where} notes[${index}]`;
+    if (isRecord(entry)) {
+      checkKeys(entry, ["id", "text", "standard", "question"], at, issues);
+      const note: Note = {
+        id: requireSlug(entry, "id", at, issues),
+        text: requireString(entry, "text", at, issues),
+      };
+      if (note.id && notes.some((each) => each.id === note.id)) {
+        issues.push(`${at}: duplicate note id "${note.id}"`);
+      }
+      const standard = parseStandard(entry, at, issues);
+      if (standard) {
+        note.standard = standard;
+      }
+      if (entry.question !== undefined) {
+        note.question = requireString(entry, "question", at, issues);
+      }
+      notes.push(note);
+    } else {
+      issues.push(`${at}: expected a mapping with \`id\` and \`text\``);
+    }
+  });
+  return notes;
+};
+
+const parseLanguage = (raw: Raw, where: string, issues: string[]) => {
+  if (raw.language === undefined) {
+    return "c";
+  }
+  if (!LANGUAGES.includes(raw.language as CodeLanguage)) {
+    issues.push(
+      `${where}: \`language\` must be one of ${LANGUAGES.join(", ")}`,
+    );
+    return "c";
+  }
+  return raw.language as CodeLanguage;
+};
+
+/** Accepts `highlight: [8]` as shorthand for `highlight: [{ line: 8 }]`. */
+const parseHighlight = (
+  raw: Raw,
+  lineCount: number,
+  where: string,
+  issues: string[],
+): HighlightedLine[] | undefined => {
+  if (raw.highlight === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(raw.highlight)) {
+    issues.push(`${where}: \`highlight\` must be a list of lines`);
+    return undefined;
+  }
+  const lines: HighlightedLine[] = [];
+  for (const entry of raw.highlight) {
+    const line: unknown = isRecord(entry) ? entry.line : entry;
+    const label: unknown = isRecord(entry) ? entry.label : undefined;
+    if (!Number.isInteger(line) || (line as number) < 1) {
+      issues.push(`${where}: highlighted line must be a positive integer`);
+    } else if ((line as number) > lineCount) {
+      issues.push(
+        `${where}: highlighted line ${line} is past the end of the sample (${lineCount} lines)`,
+      );
+    } else if (label !== undefined && typeof label !== "string") {
+      issues.push(
+        `${where}: highlight label for line ${line} must be a string`,
+      );
+    } else {
+      lines.push(
+        label ? { line: line as number, label } : { line: line as number },
+      );
+    }
+  }
+  return lines;
+};
+
+const parseVerification = (
+  raw: Raw,
+  where: string,
+  issues: string[],
+): SampleVerification | undefined => {
+  if (raw.verify === undefined) {
+    return undefined;
+  }
+  if (!isRecord(raw.verify)) {
+    issues.push(`${where}: \`verify\` must be a mapping`);
+    return undefined;
+  }
+  const verify = raw.verify;
+  const at = `${where} verify`;
+  checkKeys(verify, ["reason", "flags", "compileOnly", "skipRun"], at, issues);
+  const verification: SampleVerification = {
+    reason: requireString(verify, "reason", at, issues),
+  };
+  if (verify.flags !== undefined) {
+    if (
+      !Array.isArray(verify.flags) ||
+      verify.flags.some(
+        (flag) => typeof flag !== "string" || !flag.startsWith("-"),
+      )
+    ) {
+      issues.push(`${at}: \`flags\` must be a list of compiler flags`);
+    } else {
+      verification.flags = verify.flags as string[];
+    }
+  }
+  for (const key of ["compileOnly", "skipRun"] as const) {
+    if (verify[key] !== undefined && typeof verify[key] !== "boolean") {
+      issues.push(`${at}: \`${key}\` must be true or false`);
+    } else if (verify[key]) {
+      verification[key] = true;
+    }
+  }
+  return verification;
+};
+
+/** The fields a sample shares with each of its variants. */
+type Program = Pick<
+  SampleVariant,
+  "content" | "highlight" | "expectedOutput" | "verify"
+>;
+
+const parseProgram = (raw: Raw, where: string, issues: string[]): Program => {
+  const content = requireString(raw, "content", where, issues).replace(
+    /\n+$/,
+    "",
+  );
+  const program: Program = { content };
+  const highlight = parseHighlight(
+    raw,
+    content.split("\n").length,
+    where,
+    issues,
+  );
+  if (highlight) {
+    program.highlight = highlight;
+  }
+  if (raw.expectedOutput !== undefined) {
+    if (typeof raw.expectedOutput !== "string") {
+      issues.push(`${where}: \`expectedOutput\` must be a string`);
+    } else {
+      program.expectedOutput = raw.expectedOutput;
+    }
+  }
+  const verify = parseVerification(raw, where, issues);
+  if (verify) {
+    program.verify = verify;
+  }
+  return program;
+};
+
+const parseVariants = (
+  raw: Raw,
+  where: string,
+  issues: string[],
+): SampleVariant[] => {
+  if (!Array.isArray(raw.variants) || raw.variants.length < 2) {
+    issues.push(`${where}: \`variants\` must be a list of two or more`);
+    return [];
+  }
+  const variants: SampleVariant[] = [];
+  raw.variants.forEach((entry: unknown, index) => {
+    const at = `${where} variants[${index}]`;
+    if (!isRecord(entry)) {
+      issues.push(`${at}: expected a mapping with \`name\` and \`content\``);
+      return;
+    }
+    checkKeys(
+      entry,
+      [
+        "name",
+        "content",
+        "highlight",
+        "expectedOutput",
+        "diagnostics",
+        "verify",
+      ],
+      at,
+      issues,
+    );
+    const variant: SampleVariant = {
+      name: requireSlug(entry, "name", at, issues),
+      ...parseProgram(entry, at, issues),
+    };
+    if (entry.diagnostics !== undefined) {
+      if (typeof entry.diagnostics !== "string") {
+        issues.push(`${at}: \`diagnostics\` must be a string`);
+      } else {
+        variant.diagnostics = entry.diagnostics.replace(/\n+$/, "");
+      }
+    }
+    if (variants.some((other) => other.name === variant.name)) {
+      issues.push(`${at}: duplicate variant name "${variant.name}"`);
+    }
+    variants.push(variant);
+  });
+  return variants;
+};
+
+/**
+ * A sample holds either one program (`content` and the fields that go with
+ * it) or `variants`, each a program of its own.
+ */
+const parseCodeSample = (
+  raw: unknown,
+  where: string,
+  issues: string[],
+): CodeSample | undefined => {
+  if (!isRecord(raw)) {
+    issues.push(
+      `${where}: expected a mapping with \`caption\` and \`content\``,
+    );
+    return undefined;
+  }
+  const programKeys = ["content", "highlight", "expectedOutput", "verify"];
+  checkKeys(
+    raw,
+    ["caption", ...programKeys, "language", "trace", "standard", "variants"],
+    where,
+    issues,
+  );
+
+  let program: Program;
+  let variants: SampleVariant[] | undefined;
+  if (raw.variants === undefined) {
+    program = parseProgram(raw, where, issues);
+  } else {
+    for (const key of [...programKeys, "trace"]) {
+      if (raw[key] !== undefined) {
+        issues.push(
+          `${where}: \`${key}\` belongs on each variant, not on the sample`,
+        );
+      }
+    }
+    variants = parseVariants(raw, where, issues);
+    const last = variants.at(-1);
+    program = { content: last?.content ?? "" };
+    if (last?.highlight) {
+      program.highlight = last.highlight;
+    }
+    if (last?.expectedOutput !== undefined) {
+      program.expectedOutput = last.expectedOutput;
+    }
+    if (last?.verify) {
+      program.verify = last.verify;
+    }
+  }
+
+  const sample: CodeSample = {
+    caption: requireString(raw, "caption", where, issues),
+    language: parseLanguage(raw, where, issues),
+    ...program,
+  };
+  const trace =
+    variants === undefined
+      ? parseTrace(raw, program.content, where, issues)
+      : undefined;
+  if (trace) {
+    sample.trace = trace;
+  }
+  const standard = parseStandard(raw, where, issues);
+  if (standard) {
+    sample.standard = standard;
+  }
+  if (variants) {
+    sample.variants = variants;
+  }
+  return sample;
+};
+
+const requireIdentifier = (
+  raw: Raw,
+  key: string,
+  where: string,
+  issues: string[],
+) => {
+  const value = requireString(raw, key, where, issues);
+  if (value && !IDENTIFIER.test(value)) {
+    issues.push(`${where}: \`${key}\` must be a C identifier`);
+  }
+  return value;
+};
+
+const parseDimensions = (raw: Raw, where: string, issues: string[]) => {
+  const dimensions = raw.dimensions;
+  if (
+    !Array.isArray(dimensions) ||
+    (dimensions.length !== 1 && dimensions.length !== 2)
+  ) {
+    issues.push(
+      `${where}: \`dimensions\` must be \`[length]\` or \`[rows, columns]\``,
+    );
+    return [1];
+  }
+  const limits = MAX_DIMENSIONS[dimensions.length - 1];
+  dimensions.forEach((size, index) => {
+    if (!Number.isInteger(size) || size < 1 || size > limits[index]) {
+      issues.push(
+        `${where}: dimension ${index + 1} must be an integer from 1 to ${limits[index]}`,
+      );
+    }
+  });
+  return dimensions as number[];
+};
+
+const parseMemoryLayout = (
+  raw: Raw,
+  where: string,
+  issues: string[],
+): MemoryLayout | undefined => {
+  if (raw.memoryLayout === undefined) {
+    return undefined;
+  }
+  if (!isRecord(raw.memoryLayout)) {
+    issues.push(`${where}: \`memoryLayout\` must be a mapping`);
+    return undefined;
+  }
+  const layout = raw.memoryLayout;
+  const at = `${where} memoryLayout`;
+  checkKeys(layout, ["name", "type", "dimensions", "pointer"], at, issues);
+
+  const type = layout.type ?? "int";
+  if (!ELEMENT_TYPES.includes(type as ElementType)) {
+    issues.push(`${at}: \`type\` must be one of ${ELEMENT_TYPES.join(", ")}`);
+  }
+  const memoryLayout: MemoryLayout = {
+    name: requireIdentifier(layout, "name", at, issues),
+    type: type as ElementType,
+    dimensions: parseDimensions(layout, at, issues),
+  };
+  if (layout.pointer !== undefined) {
+    memoryLayout.pointer = requireIdentifier(layout, "pointer", at, issues);
+  }
+  return memoryLayout;
+};
+
+const parseSubtopic = (
+  file: string,
+  issues: string[],
+): Subtopic | undefined => {
+  const raw = readYaml(file, issues);
+  if (!raw) {
+    return undefined;
+  }
+  const where = relative(file);
+  checkKeys(
+    raw,
+    [
+      "id",
+      "title",
+      "summary",
+      "standard",
+      "notes",
+      "memoryLayout",
+      "code",
+      "exercises",
+      "seeAlso",
+    ],
+    where,
+    issues,
+  );
+
+  const subtopic: Subtopic = {
+    id: requireSlug(raw, "id", where, issues),
+    title: requireString(raw, "title", where, issues),
+    summary: requireString(raw, "summary", where, issues),
+  };
+
+  const standard = parseStandard(raw, where, issues);
+  if (standard) {
+    subtopic.standard = standard;
+  }
+
+  const notes = parseNotes(raw, where, issues);
+  if (notes) {
+    subtopic.notes = notes;
+  }
+
+  const memoryLayout = parseMemoryLayout(raw, where, issues);
+  if (memoryLayout) {
+    subtopic.memoryLayout = memoryLayout;
+  }
+
+  if (raw.code !== undefined) {
+    if (!Array.isArray(raw.code) || raw.code.length === 0) {
+      issues.push(`${where}: \`code\` must be a non-empty list of samples`);
+    } else {
+      subtopic.code = raw.code
+        .map((sample, index) =>
+          parseCodeSample(sample, `${where} code[${index}]`, issues),
+        )
+        .filter((sample): sample is CodeSample => sample !== undefined);
+      for (const sample of subtopic.code) {
+        if (
+          standard &&
+          sample.standard &&
+          !isValidIn(standard, sample.standard)
+        ) {
+          issues.push(
+            `${where}: sample "${sample.caption}" is tagged ${sample.standard}, older than the subtopic's ${standard}`,
+          );
+        }
+      }
+    }
+  }
+
+  const exercises = parseExercises(raw, where, issues);
+  if (exercises) {
+    subtopic.exercises = exercises;
+  }
+
+  if (raw.seeAlso !== undefined) {
+    subtopic.seeAlso = requireStringList(raw, "seeAlso", where, issues);
+  }
+
+  return subtopic;
+};
+
+const parseTopic = (dir: string, issues: string[]): Topic | undefined => {
+  const file = path.join(dir, TOPIC_FILE);
+  if (!fs.existsSync(file)) {
+    issues.push(`${relative(dir)}: missing ${TOPIC_FILE}`);
+    return undefined;
+  }
+  const raw = readYaml(file, issues);
+  if (!raw) {
+    return undefined;
+  }
+  const where = relative(file);
+  checkKeys(raw, ["id", "title", "summary"], where, issues);
+
+  const subtopicFiles = fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".yaml") && name !== TOPIC_FILE)
+    .sort();
+  if (subtopicFiles.length === 0) {
+    issues.push(`${relative(dir)}: topic has no subtopics`);
+  }
+
+  return {
+    id: requireSlug(raw, "id", where, issues),
+    title: requireString(raw, "title", where, issues),
+    summary: requireString(raw, "summary", where, issues),
+    subtopics: subtopicFiles
+      .map((name) => parseSubtopic(path.join(dir, name), issues))
+      .filter((subtopic): subtopic is Subtopic => subtopic !== undefined),
+  };
+};
+
+const checkDuplicateTitles = (
+  topics: Topic[],
+  where: string,
+  issues: string[],
+) => {
+  const seen = new Set<string>();
+  const titles = topics.flatMap((topic) => [
+    topic.title,
+    ...topic.subtopics.map((subtopic) => subtopic.title),
+  ]);
+  for (const title of titles) {
+    if (title && seen.has(title)) {
+      issues.push(`${where}: duplicate title "${title}"`);
+    }
+    seen.add(title);
+  }
+};
+
+/**
+ * Topic and subtopic `id`s name URL segments and share the anchors of a
+ * page with code samples, so they must be unique across the whole course.
+ * A sample's id is its anchor, as `sampleAnchor` builds it; the JSON API
+ * serves samples under it.
+ */
+const checkDuplicateIds = (
+  topics: Topic[],
+  where: string,
+  issues: string[],
+) => {
+  const seen = new Set<string>();
+  const ids = topics.flatMap((topic) => [
+    topic.id,
+    ...topic.subtopics.flatMap((subtopic) => [
+      subtopic.id,
+      ...(subtopic.code ?? []).map(
+        (sample) => `${subtopic.id}-${slugify(sample.caption)}`,
+      ),
+    ]),
+  ]);
+  for (const id of ids) {
+    if (id && seen.has(id)) {
+      issues.push(`${where}: duplicate id "${id}"`);
+    }
+    seen.add(id);
+  }
+};
+
+/** Every `seeAlso` entry or `[[id]]` in a note must name a subtopic. */
+const checkReferences = (topics: Topic[], where: string, issues: string[]) => {
+  const subtopics = topics.flatMap((topic) => topic.subtopics);
+  const ids = new Set(subtopics.map((subtopic) => subtopic.id));
+  for (const subtopic of subtopics) {
+    for (const id of referencedIds(subtopic)) {
+      if (id === subtopic.id) {
+        issues.push(`${where}: "${subtopic.title}" refers to itself`);
+      } else if (!ids.has(id)) {
+        issues.push(
+          `${where}: "${subtopic.title}" refers to unknown subtopic "${id}"`,
+        );
+      }
+    }
+  }
+};
+
+/**
+ * Reads every topic directory under `topicsDir`: each holds a `topic.yaml`
+ * with the topic's id, title, and summary, plus one YAML file per subtopic.
+ * Directories and subtopic files are ordered by their file names, so prefix
+ * them with a zero-padded number.
+ */
+export function parseTopics(topicsDir: string, issues: string[]): Topic[] {
+  if (!fs.existsSync(topicsDir)) {
+    issues.push(`${relative(topicsDir)}: missing topics directory`);
+    return [];
+  }
+  const topicDirs = fs
+    .readdirSync(topicsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => path.join(topicsDir, entry.name))
+    .sort();
+
+  const topics = topicDirs
+    .map((dir) => parseTopic(dir, issues))
+    .filter((topic): topic is Topic => topic !== undefined);
+
+  if (topics.length === 0) {
+    issues.push(`${relative(topicsDir)}: no topics found`);
+  }
+  checkDuplicateTitles(topics, relative(topicsDir), issues);
+  checkDuplicateIds(topics, relative(topicsDir), issues);
+  checkReferences(topics, relative(topicsDir), issues);
+  return topics;
+}
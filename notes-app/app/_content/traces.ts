@@ -0,0 +1,244 @@
+import type { SampleTrace, TraceProbe, TraceStep } from "./types";
+import { checkKeys, isRecord, type Raw } from "./validate";
+
+/** Long enough for a sorting pass, short enough to click through. */
+export const MAX_TRACE_STEPS = 100;
+
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/g;
+const KEYWORDS = new Set(["sizeof", "const", "int", "char", "size_t"]);
+
+/**
+ * Catches traces that drift from their sample: every identifier an expression
+ * mentions must still appear in the source.
+ */
+const checkExpression = (
+  expression: string,
+  source: string,
+  where: string,
+  issues: string[],
+) => {
+  for (const [name] of expression.matchAll(IDENTIFIER)) {
+    if (!KEYWORDS.has(name) && !new RegExp(`\\b${name}\\b`).test(source)) {
+      issues.push(
+        `${where}: \`${expression}\` refers to \`${name}\`, which is not in the sample`,
+      );
+    }
+  }
+};
+
+const checkLine = (
+  line: unknown,
+  lines: string[],
+  where: string,
+  issues: string[],
+) => {
+  if (!Number.isInteger(line) || (line as number) < 1) {
+    issues.push(`${where}: \`line\` must be a positive integer`);
+  } else if ((line as number) > lines.length) {
+    issues.push(
+      `${where}: \`line\` ${line} is past the end of the sample (${lines.length} lines)`,
+    );
+  } else if (lines[(line as number) - 1].trim() === "") {
+    issues.push(`${where}: \`line\` ${line} is blank`);
+  }
+  return line as number;
+};
+
+const isScalar = (value: unknown) =>
+  typeof value === "string" ||
+  typeof value === "number" ||
+  typeof value === "boolean";
+
+const parseProbe = (
+  raw: unknown,
+  source: string,
+  where: string,
+  issues: string[],
+): TraceProbe | undefined => {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: expected a mapping with a \`line\``);
+    return undefined;
+  }
+  checkKeys(raw, ["line", "values", "arrays", "note"], where, issues);
+  const probe: TraceProbe = {
+    line: checkLine(raw.line, source.split("\n"), where, issues),
+  };
+  if (raw.values !== undefined) {
+    if (
+      !Array.isArray(raw.values) ||
+      raw.values.some((value) => typeof value !== "string")
+    ) {
+      issues.push(`${where}: \`values\` must be a list of C expressions`);
+    } else {
+      probe.values = raw.values as string[];
+    }
+  }
+  if (raw.arrays !== undefined) {
+    if (
+      !isRecord(raw.arrays) ||
+      Object.values(raw.arrays).some((length) => !isScalar(length))
+    ) {
+      issues.push(
+        `${where}: \`arrays\` must map array expressions to their lengths`,
+      );
+    } else {
+      probe.arrays = Object.fromEntries(
+        Object.entries(raw.arrays).map(([array, length]) => [
+          array,
+          String(length),
+        ]),
+      );
+    }
+  }
+  for (const expression of [
+    ...(probe.values ?? []),
+    ...Object.entries(probe.arrays ?? {}).flat(),
+  ]) {
+    checkExpression(expression, source, where, issues);
+  }
+  if (raw.note !== undefined) {
+    if (typeof raw.note !== "string") {
+      issues.push(`${where}: \`note\` must be a string`);
+    } else {
+      probe.note = raw.note;
+    }
+  }
+  return probe;
+};
+
+const parseStep = (
+  raw: unknown,
+  source: string,
+  where: string,
+  issues: string[],
+): TraceStep | undefined => {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: expected a mapping with a \`line\``);
+    return undefined;
+  }
+  checkKeys(raw, ["line", "values", "arrays", "note"], where, issues);
+  const step: TraceStep = {
+    line: checkLine(raw.line, source.split("\n"), where, issues),
+  };
+  if (raw.values !== undefined) {
+    if (
+      !isRecord(raw.values) ||
+      Object.values(raw.values).some((value) => !isScalar(value))
+    ) {
+      issues.push(`${where}: \`values\` must map expressions to values`);
+    } else {
+      step.values = Object.fromEntries(
+        Object.entries(raw.values).map(([name, value]) => [
+          name,
+          String(value),
+        ]),
+      );
+    }
+  }
+  if (raw.arrays !== undefined) {
+    if (
+      !isRecord(raw.arrays) ||
+      Object.values(raw.arrays).some(
+        (elements) => !Array.isArray(elements) || !elements.every(isScalar),
+      )
+    ) {
+      issues.push(`${where}: \`arrays\` must map expressions to lists`);
+    } else {
+      step.arrays = Object.fromEntries(
+        Object.entries(raw.arrays).map(([name, elements]) => [
+          name,
+          (elements as unknown[]).map(String),
+        ]),
+      );
+    }
+  }
+  for (const expression of [
+    ...Object.keys(step.values ?? {}),
+    ...Object.keys(step.arrays ?? {}),
+  ]) {
+    checkExpression(expression, source, where, issues);
+  }
+  if (raw.note !== undefined) {
+    if (typeof raw.note !== "string") {
+      issues.push(`${where}: \`note\` must be a string`);
+    } else {
+      step.note = raw.note;
+    }
+  }
+  return step;
+};
+
+/** Also used by `scripts/trace-samples.ts`, before any steps are recorded. */
+export const parseProbes = (
+  trace: Raw,
+  source: string,
+  where: string,
+  issues: string[],
+): TraceProbe[] | undefined => {
+  if (trace.probes === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(trace.probes) || trace.probes.length === 0) {
+    issues.push(`${where}: \`probes\` must be a non-empty list`);
+    return undefined;
+  }
+  return trace.probes
+    .map((probe, index) =>
+      parseProbe(probe, source, `${where} probes[${index}]`, issues),
+    )
+    .filter((probe): probe is TraceProbe => probe !== undefined);
+};
+
+/**
+ * Reads a sample's optional `trace`. Recorded steps must sit on probed lines,
+ * so editing a sample without re-recording its trace fails the build.
+ */
+export const parseTrace = (
+  raw: Raw,
+  source: string,
+  where: string,
+  issues: string[],
+): SampleTrace | undefined => {
+  if (raw.trace === undefined) {
+    return undefined;
+  }
+  const at = `${where} trace`;
+  if (!isRecord(raw.trace)) {
+    issues.push(`${at}: expected a mapping with \`steps\``);
+    return undefined;
+  }
+  const trace = raw.trace;
+  checkKeys(trace, ["probes", "steps"], at, issues);
+
+  const probes = parseProbes(trace, source, at, issues);
+
+  if (
+    !Array.isArray(trace.steps) ||
+    trace.steps.length === 0 ||
+    trace.steps.length > MAX_TRACE_STEPS
+  ) {
+    issues.push(
+      probes
+        ? `${at}: \`steps\` is missing or out of date; run \`npx tsx scripts/trace-samples.ts\``
+        : `${at}: \`steps\` must be a list of 1 to ${MAX_TRACE_STEPS} steps`,
+    );
+    return undefined;
+  }
+  const steps = trace.steps
+    .map((step, index) =>
+      parseStep(step, source, `${at} steps[${index}]`, issues),
+    )
+    .filter((step): step is TraceStep => step !== undefined);
+
+  if (probes) {
+    const probed = new Set(probes.map((probe) => probe.line));
+    steps.forEach((step, index) => {
+      if (!probed.has(step.line)) {
+        issues.push(
+          `${at} steps[${index}]: line ${step.line} has no probe; re-record the trace with \`npx tsx scripts/trace-samples.ts\``,
+        );
+      }
+    });
+  }
+  return probes ? { probes, steps } : { steps };
+};
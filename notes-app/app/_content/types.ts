@@ -0,0 +1,205 @@
+export type CodeLanguage = "c" | "text";
+
+/** ISO C revisions, oldest first. */
+export type CStandard = "C89" | "C99" | "C11" | "C17" | "C23";
+
+export type HighlightedLine = {
+  /** 1-based line number within `content`. */
+  line: number;
+  /** Short explanation shown next to the line, e.g. "Bug". */
+  label?: string;
+};
+
+/** Exceptions to the default checks in `scripts/verify-samples.ts`. */
+export type SampleVerification = {
+  /** Why the sample needs an exception; printed in the verifier's report. */
+  reason: string;
+  /** Extra compiler flags, e.g. `-Wno-vla` for a deliberate VLA. */
+  flags?: string[];
+  /** Compile to an object file only, for fragments without `main`. */
+  compileOnly?: boolean;
+  /** Compile and link but never run, for deliberate undefined behavior. */
+  skipRun?: boolean;
+};
+
+/**
+ * A point in the source where `scripts/trace-samples.ts` records values each
+ * time execution reaches the line, before the line runs.
+ */
+export type TraceProbe = {
+  line: number;
+  /** C expressions to print, such as `i` or `*length`. */
+  values?: string[];
+  /** Arrays to print, keyed by expression, with a C expression for the length. */
+  arrays?: Record<string, string>;
+  /** Shown for every step recorded at this probe. */
+  note?: string;
+};
+
+export type TraceStep = {
+  /** The line about to run. */
+  line: number;
+  values?: Record<string, string>;
+  arrays?: Record<string, string[]>;
+  note?: string;
+};
+
+/** A step-by-step record of a run, authored by hand or recorded from probes. */
+export type SampleTrace = {
+  probes?: TraceProbe[];
+  steps: TraceStep[];
+};
+
+/**
+ * One version of a sample, such as the `buggy` and `fixed` sides of a
+ * pitfall. Each variant is verified as a program of its own.
+ */
+export type SampleVariant = {
+  /** Lowercase name shown on the variant's tab, e.g. `buggy`. */
+  name: string;
+  content: string;
+  highlight?: HighlightedLine[];
+  expectedOutput?: string;
+  /** Compiler warnings or a sanitizer report the variant produces. */
+  diagnostics?: string;
+  verify?: SampleVerification;
+};
+
+export type CodeSample = {
+  caption: string;
+  /**
+   * With `variants`, this, `highlight`, `expectedOutput`, and `verify` are
+   * copied from the last one.
+   */
+  content: string;
+  language: CodeLanguage;
+  highlight?: HighlightedLine[];
+  /** What the program prints; checked by the verifier and shown on the page. */
+  expectedOutput?: string;
+  verify?: SampleVerification;
+  trace?: SampleTrace;
+  /** The oldest standard the sample compiles under; see `sampleStandard`. */
+  standard?: CStandard;
+  /** Two or more versions shown as tabs and as a side-by-side diff. */
+  variants?: SampleVariant[];
+};
+
+type ExerciseBase = {
+  prompt: string;
+  /** Shown once the reader has answered, right or wrong. */
+  explanation: string;
+};
+
+export type MultipleChoiceExercise = ExerciseBase & {
+  type: "multiple-choice";
+  choices: string[];
+  /** The text of the correct choice. */
+  answer: string;
+};
+
+export type PredictOutputExercise = ExerciseBase & {
+  type: "predict-output";
+  snippet: string;
+  /** Compared with the reader's answer ignoring surrounding whitespace. */
+  answer: string;
+};
+
+export type FindTheBugExercise = ExerciseBase & {
+  type: "find-the-bug";
+  snippet: string;
+  /** 1-based line number of the bug within `snippet`. */
+  line: number;
+};
+
+export type Exercise =
+  MultipleChoiceExercise | PredictOutputExercise | FindTheBugExercise;
+
+export type ElementType = "char" | "int" | "double";
+
+/** An array drawn as memory cells by the layout visualizer. */
+export type MemoryLayout = {
+  /** The array's name in expressions such as `numbers[i]` and `&numbers`. */
+  name: string;
+  type: ElementType;
+  /** `[length]` or `[rows, columns]`; readers can change both. */
+  dimensions: number[];
+  /** Adds `pointer + n` to the expressions, with `pointer` at element 0. */
+  pointer?: string;
+};
+
+export type Note = {
+  /**
+   * Unique within the subtopic; keys the note's flashcards. Unlike the text,
+   * it should never change.
+   */
+  id: string;
+  text: string;
+  /** Set when the note describes a feature added in this standard. */
+  standard?: CStandard;
+  /**
+   * Makes the note a question-and-answer flashcard, with `text` as the
+   * answer. Other notes become cloze cards on their code spans.
+   */
+  question?: string;
+};
+
+export type Subtopic = {
+  /**
+   * URL segment and anchor, unique within the course; other subtopics refer
+   * to it by this. Unlike the title, it should never change.
+   */
+  id: string;
+  title: string;
+  summary: string;
+  /** Set when the whole subtopic is about a feature added in this standard. */
+  standard?: CStandard;
+  notes?: Note[];
+  memoryLayout?: MemoryLayout;
+  code?: CodeSample[];
+  exercises?: Exercise[];
+  /** `id`s of related subtopics in the same course. */
+  seeAlso?: string[];
+};
+
+export type Topic = {
+  /** URL segment and anchor, unique within the course. */
+  id: string;
+  title: string;
+  summary: string;
+  subtopics: Subtopic[];
+};
+
+export type CourseMetadata = {
+  /** Document title for the course's pages. */
+  title: string;
+  description: string;
+};
+
+export type Course = {
+  /** URL segment, taken from the course's directory name. */
+  slug: string;
+  title: string;
+  kicker: string;
+  lede: string;
+  metadata: CourseMetadata;
+  topics: Topic[];
+  redirects: Redirects;
+};
+
+/**
+ * Slugs that once named a topic or subtopic, in URLs or in the anchors of
+ * the old single-page layout, mapped to the `id` that replaced each.
+ */
+export type Redirects = {
+  topics: Record<string, string>;
+  subtopics: Record<string, string>;
+};
+
+export type GlossaryTerm = {
+  term: string;
+  /** Anchor on the glossary page. */
+  slug: string;
+  /** Other spellings that link to the term, such as plurals. */
+  aliases: string[];
+  definition: string;
+};
@@ -0,0 +1,105 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse } from "yaml";
+
+/**
+ * Small helpers shared by the content parsers. Each one records a readable
+ * problem in `issues` instead of throwing, so a single build reports every
+ * broken file at once.
+ */
+
+export type Raw = Record<string, unknown>;
+
+export class ContentError extends Error {
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid course content (${issues.length} issue${issues.length === 1 ? "" : "s"}):\n` +
+        issues.map((issue) => `  - ${issue}`).join("\n"),
+    );
+    this.name = "ContentError";
+  }
+}
+
+export const relative = (file: string) => path.relative(process.cwd(), file);
+
+export const isRecord = (value: unknown): value is Raw =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const checkKeys = (
+  raw: Raw,
+  allowed: readonly string[],
+  where: string,
+  issues: string[],
+) => {
+  for (const key of Object.keys(raw)) {
+    if (!allowed.includes(key)) {
+      issues.push(`${where}: unknown field \`${key}\``);
+    }
+  }
+};
+
+export const requireString = (
+  raw: Raw,
+  key: string,
+  where: string,
+  issues: string[],
+): string => {
+  const value = raw[key];
+  if (typeof value !== "string" || value.trim() === "") {
+    issues.push(`${where}: missing \`${key}\``);
+    return "";
+  }
+  return value;
+};
+
+/** Lowercase words joined by hyphens, e.g. `decay-and-differences`. */
+export const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** A required string that is usable as a URL segment and an HTML `id`. */
+export const requireSlug = (
+  raw: Raw,
+  key: string,
+  where: string,
+  issues: string[],
+): string => {
+  const value = requireString(raw, key, where, issues);
+  if (value && !SLUG.test(value)) {
+    issues.push(
+      `${where}: \`${key}\` must be lowercase words joined by hyphens, got "${value}"`,
+    );
+  }
+  return value;
+};
+
+export const requireStringList = (
+  raw: Raw,
+  key: string,
+  where: string,
+  issues: string[],
+): string[] => {
+  const value = raw[key];
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((item) => typeof item !== "string" || item.trim() === "")
+  ) {
+    issues.push(`${where}: \`${key}\` must be a list of non-empty strings`);
+    return [];
+  }
+  return value as string[];
+};
+
+export const readYaml = (file: string, issues: string[]): Raw | undefined => {
+  let value: unknown;
+  try {
+    value = parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    issues.push(`${relative(file)}: ${(error as Error).message}`);
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    issues.push(`${relative(file)}: expected a mapping at the top level`);
+    return undefined;
+  }
+  return value;
+};
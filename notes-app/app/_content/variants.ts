@@ -0,0 +1,84 @@
+/**
+ * Sample variants, such as the `buggy` and `fixed` sides of a pitfall. Keep
+ * this module free of Node APIs.
+ */
+import type { CodeSample, SampleVariant } from "./types";
+
+export type LineChanges = {
+  /** 1-based lines of the old version that the new one drops. */
+  removed: number[];
+  /** 1-based lines of the new version that the old one lacks. */
+  added: number[];
+};
+
+/** A variant as a sample of its own, captioned "Off-by-One Loop (buggy)". */
+export function variantSample(
+  sample: CodeSample,
+  variant: SampleVariant,
+): CodeSample {
+  const program: CodeSample = {
+    caption: `${sample.caption} (${variant.name})`,
+    content: variant.content,
+    language: sample.language,
+  };
+  if (variant.highlight) {
+    program.highlight = variant.highlight;
+  }
+  if (variant.expectedOutput !== undefined) {
+    program.expectedOutput = variant.expectedOutput;
+  }
+  if (variant.verify) {
+    program.verify = variant.verify;
+  }
+  if (sample.standard) {
+    program.standard = sample.standard;
+  }
+  return program;
+}
+
+/**
+ * Every program a sample holds: one per variant, or the sample itself. The
+ * verifier, the search index, and the download bundles go through this.
+ */
+export const expandVariants = (sample: CodeSample): CodeSample[] =>
+  sample.variants?.map((variant) => variantSample(sample, variant)) ?? [
+    sample,
+  ];
+
+/** Lines that differ between two versions, by longest common subsequence. */
+export function changedLines(from: string, to: string): LineChanges {
+  const a = from.split("\n");
+  const b = to.split("\n");
+  // common[i][j] is the LCS length of a[i..] and b[j..].
+  const common = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      common[i][j] =
+        a[i] === b[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: LineChanges = { removed: [], added: [] };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i += 1;
+      j += 1;
+    } else if (
+      j < b.length &&
+      (i === a.length || common[i][j + 1] >= common[i + 1][j])
+    ) {
+      changes.added.push(j + 1);
+      j += 1;
+    } else {
+      changes.removed.push(i + 1);
+      i += 1;
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,75 @@
+/**
+ * A course as a book: the one reading order that the print layout, the PDF,
+ * and the EPUB are all built from.
+ */
+import { findSubtopicById } from "../_content/navigation";
+import { plainText } from "../_content/references";
+import type { CodeSample, Course, Subtopic, Topic } from "../_content/types";
+import { variantSample } from "../_content/variants";
+
+export type BookSample = {
+  sample: CodeSample;
+  /** A variant's compiler warnings or sanitizer report. */
+  diagnostics?: string;
+};
+
+export type BookSection = {
+  /** The subtopic's `id`, used as its anchor. */
+  id: string;
+  title: string;
+  /** Inline Markdown, with references to other subtopics as their titles. */
+  summary: string;
+  notes: string[];
+  samples: BookSample[];
+};
+
+export type BookChapter = {
+  /** The topic's `id`, used as its anchor. */
+  id: string;
+  title: string;
+  summary: string;
+  sections: BookSection[];
+};
+
+export type Book = {
+  title: string;
+  subtitle: string;
+  description: string;
+  chapters: BookChapter[];
+};
+
+/** Each variant printed in turn, since paper has no tabs. */
+const bookSamples = (sample: CodeSample): BookSample[] =>
+  sample.variants
+    ? sample.variants.map((variant) => {
+        const printed: BookSample = { sample: variantSample(sample, variant) };
+        if (variant.diagnostics) {
+          printed.diagnostics = variant.diagnostics;
+        }
+        return printed;
+      })
+    : [{ sample }];
+
+export function createBook(course: Course): Book {
+  const titleOf = (id: string) => findSubtopicById(course, id)?.subtopic.title;
+  const section = (subtopic: Subtopic): BookSection => ({
+    id: subtopic.id,
+    title: subtopic.title,
+    summary: subtopic.summary,
+    notes: (subtopic.notes ?? []).map((note) => plainText(note.text, titleOf)),
+    samples: (subtopic.code ?? []).flatMap(bookSamples),
+  });
+  const chapter = (topic: Topic): BookChapter => ({
+    id: topic.id,
+    title: topic.title,
+    summary: topic.summary,
+    sections: topic.subtopics.map(section),
+  });
+
+  return {
+    title: course.title,
+    subtitle: course.lede,
+    description: course.metadata.description,
+    chapters: course.topics.map(chapter),
+  };
+}
@@ -0,0 +1,164 @@
+import { escapeHtml, inlineHtml, parseInline } from "../_content/markdown";
+import type { Book, BookChapter, BookSample } from "./book";
+import { createZip, type ZipEntry } from "./zip";
+
+type EpubOptions = {
+  /** A stable URI naming the book, e.g. its URL on the site. */
+  identifier: string;
+  modified?: Date;
+};
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; }
+h1, h2, h3 { font-family: sans-serif; line-height: 1.2; }
+.cover { margin-top: 30%; text-align: center; }
+.summary { font-style: italic; }
+figure { margin: 1em 0; page-break-inside: avoid; break-inside: avoid; }
+figcaption { font-family: sans-serif; font-size: 0.85em; font-weight: bold; }
+pre { font-size: 0.8em; white-space: pre-wrap; border-left: 3px solid #ccc; padding-left: 0.75em; }
+.output::before, .diagnostics::before { display: block; font-family: sans-serif; font-size: 0.85em; }
+.output::before { content: "Output"; }
+.diagnostics::before { content: "Diagnostics"; }
+nav ol { list-style: none; }
+`;
+
+const markdown = (text: string) => inlineHtml(parseInline(text));
+
+const page = (title: string, body: string, nav = false) => `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${nav ? ' xmlns:epub="http://www.idpf.org/2007/ops"' : ""} xml:lang="en" lang="en">
+<head>
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const chapterFile = (index: number) =>
+  `chapter-${String(index + 1).padStart(2, "0")}.xhtml`;
+
+const sampleFigure = ({ sample, diagnostics }: BookSample) =>
+  [
+    "<figure>",
+    `<figcaption>${escapeHtml(sample.caption)}</figcaption>`,
+    `<pre><code>${escapeHtml(sample.content)}</code></pre>`,
+    diagnostics && `<pre class="diagnostics">${escapeHtml(diagnostics)}</pre>`,
+    sample.expectedOutput !== undefined &&
+      `<pre class="output">${escapeHtml(sample.expectedOutput)}</pre>`,
+    "</figure>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+const chapterPage = (chapter: BookChapter) =>
+  page(
+    chapter.title,
+    [
+      `<section id="${chapter.id}">`,
+      `<h1>${escapeHtml(chapter.title)}</h1>`,
+      `<p class="summary">${markdown(chapter.summary)}</p>`,
+      ...chapter.sections.flatMap((section) => [
+        `<section id="${section.id}">`,
+        `<h2>${escapeHtml(section.title)}</h2>`,
+        `<p>${markdown(section.summary)}</p>`,
+        section.notes.length > 0 &&
+          `<ul>\n${section.notes.map((note) => `<li>${markdown(note)}</li>`).join("\n")}\n</ul>`,
+        ...section.samples.map(sampleFigure),
+        "</section>",
+      ]),
+      "</section>",
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  );
+
+const navPage = (book: Book) =>
+  page(
+    book.title,
+    [
+      '<nav epub:type="toc" id="toc">',
+      "<h1>Contents</h1>",
+      "<ol>",
+      ...book.chapters.map((chapter, index) => {
+        const file = chapterFile(index);
+        const sections = chapter.sections.map(
+          (section) =>
+            `<li><a href="${file}#${section.id}">${escapeHtml(section.title)}</a></li>`,
+        );
+        return `<li><a href="${file}">${escapeHtml(chapter.title)}</a>\n<ol>\n${sections.join("\n")}\n</ol></li>`;
+      }),
+      "</ol>",
+      "</nav>",
+    ].join("\n"),
+    true,
+  );
+
+const coverPage = (book: Book) =>
+  page(
+    book.title,
+    `<section class="cover">\n<h1>${escapeHtml(book.title)}</h1>\n<p>${escapeHtml(book.subtitle)}</p>\n</section>`,
+  );
+
+const packageDocument = (book: Book, options: EpubOptions) => {
+  // `dcterms:modified` takes whole seconds.
+  const modified = (options.modified ?? new Date())
+    .toISOString()
+    .replace(/\.\d+Z$/, "Z");
+  const chapters = book.chapters.map((_, index) => chapterFile(index));
+  return `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeHtml(options.identifier)}</dc:identifier>
+<dc:title>${escapeHtml(book.title)}</dc:title>
+<dc:description>${escapeHtml(book.description)}</dc:description>
+<dc:language>en</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+${chapters.map((file, index) => `<item id="chapter-${index + 1}" href="${file}" media-type="application/xhtml+xml"/>`).join("\n")}
+</manifest>
+<spine>
+<itemref idref="cover"/>
+<itemref idref="nav"/>
+${chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`).join("\n")}
+</spine>
+</package>
+`;
+};
+
+const CONTAINER = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+/**
+ * An EPUB 3 book with one chapter per topic. Samples are set as plain
+ * preformatted text, since e-readers restyle everything else anyway.
+ */
+export function createEpub(book: Book, options: EpubOptions): Buffer {
+  const entries: ZipEntry[] = [
+    // Must come first, uncompressed, so readers can sniff the format.
+    { name: "mimetype", content: "application/epub+zip", store: true },
+    { name: "META-INF/container.xml", content: CONTAINER },
+    {
+      name: "OEBPS/content.opf",
+      content: packageDocument(book, options),
+    },
+    { name: "OEBPS/nav.xhtml", content: navPage(book) },
+    { name: "OEBPS/style.css", content: STYLESHEET },
+    { name: "OEBPS/cover.xhtml", content: coverPage(book) },
+    ...book.chapters.map((chapter, index) => ({
+      name: `OEBPS/${chapterFile(index)}`,
+      content: chapterPage(chapter),
+    })),
+  ];
+  return createZip(entries, options.modified);
+}
@@ -0,0 +1,647 @@
+import { deflateSync } from "node:zlib";
+import { type InlineNode, parseInline } from "../_content/markdown";
+import type { Book, BookSample } from "./book";
+
+/** A4, in points. */
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BOTTOM = MARGIN + 14;
+const CODE_PADDING = 6;
+
+type Font = "regular" | "bold" | "italic" | "mono";
+
+/** The standard 14 fonts every PDF reader has, so nothing is embedded. */
+const FONTS: Record<Font, { name: string; base: string }> = {
+  regular: { name: "F1", base: "Helvetica" },
+  bold: { name: "F2", base: "Helvetica-Bold" },
+  italic: { name: "F3", base: "Helvetica-Oblique" },
+  mono: { name: "F4", base: "Courier" },
+};
+
+/** Advance widths of ` ` through `~`, in 1/1000 em, from the Adobe AFMs. */
+// prettier-ignore
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+/** Widths of the WinAnsi characters above `~` that differ from 556. */
+const WIDE: Record<number, number> = { 0x85: 1000, 0x95: 350, 0x97: 1000 };
+
+/** Unicode characters that WinAnsi puts in 0x80–0x9f. */
+// prettier-ignore
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86,
+  "‡": 0x87, "ˆ": 0x88, "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c,
+  "Ž": 0x8e, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95,
+  "–": 0x96, "—": 0x97, "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b,
+  "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+// prettier-ignore
+const FALLBACKS: Record<string, string> = {
+  "→": "->", "←": "<-", "≤": "<=", "≥": ">=", "≠": "!=", "✓": "v", "✗": "x",
+};
+
+/** `text` as WinAnsi bytes, one character per byte. */
+const toWinAnsi = (text: string) =>
+  [...text.replace(/\t/g, "    ")]
+    .map((character) => {
+      const code = character.codePointAt(0) ?? 0;
+      if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) {
+        return character;
+      }
+      if (character in WIN_ANSI) {
+        return String.fromCharCode(WIN_ANSI[character]);
+      }
+      return FALLBACKS[character] ?? "?";
+    })
+    .join("");
+
+const widthOf = (text: string, font: Font, size: number) => {
+  if (font === "mono") {
+    return text.length * 0.6 * size;
+  }
+  const table = font === "bold" ? HELVETICA_BOLD : HELVETICA;
+  let width = 0;
+  for (let at = 0; at < text.length; at += 1) {
+    const code = text.charCodeAt(at);
+    width += table[code - 32] ?? WIDE[code] ?? 556;
+  }
+  return (width * size) / 1000;
+};
+
+type Run = {
+  /** WinAnsi; see `toWinAnsi`. */
+  text: string;
+  font: Font;
+  /** Gray level, 0 for black. */
+  gray?: number;
+};
+
+type Line = {
+  runs: Run[];
+  size: number;
+  /** Distance from this line's top to the next line's. */
+  height: number;
+  indent: number;
+  /** Gray level of a band drawn behind the line, as behind code. */
+  shade?: number;
+  /** Right-aligned after dot leaders, as a page number in the contents. */
+  trailer?: string;
+  /** The anchor the line links to, for the contents. */
+  link?: string;
+  /** A bullet hung in the indent. */
+  marker?: string;
+};
+
+type Block = {
+  lines: Line[];
+  spaceBefore: number;
+  /** Moves to a new page rather than split, unless taller than a page. */
+  together?: boolean;
+  /** Moves to a new page with the start of the next block, as headings do. */
+  withNext?: boolean;
+  pageBreak?: boolean;
+  /** Records where the block lands, for the contents and the outline. */
+  anchor?: string;
+};
+
+const runsOf = (nodes: InlineNode[], font: Font = "regular"): Run[] =>
+  nodes.flatMap((node): Run[] => {
+    switch (node.type) {
+      case "text":
+        return [{ text: toWinAnsi(node.text), font }];
+      case "code":
+        return [{ text: toWinAnsi(node.text), font: "mono" }];
+      case "emphasis":
+        return runsOf(node.children, font === "bold" ? font : "italic");
+      case "strong":
+        return runsOf(node.children, "bold");
+      case "link":
+        return /^(?:https?|mailto):/i.test(node.href)
+          ? [
+              ...runsOf(node.children, font),
+              { text: toWinAnsi(` (${node.href})`), font, gray: 0.4 },
+            ]
+          : runsOf(node.children, font);
+    }
+  });
+
+/** Breaks runs into lines at spaces, or anywhere in a word too long to fit. */
+function wrap(runs: Run[], size: number, width: number): Run[][] {
+  const lines: Run[][] = [[]];
+  let used = 0;
+  const push = (text: string, run: Run) => {
+    const line = lines[lines.length - 1];
+    const last = line[line.length - 1];
+    if (last && last.font === run.font && last.gray === run.gray) {
+      last.text += text;
+    } else {
+      line.push({ ...run, text });
+    }
+    used += widthOf(text, run.font, size);
+  };
+  const breakLine = () => {
+    const line = lines[lines.length - 1];
+    const last = line[line.length - 1];
+    if (last) {
+      last.text = last.text.trimEnd();
+    }
+    lines.push([]);
+    used = 0;
+  };
+
+  for (const run of runs) {
+    for (const token of run.text.split(/(\s+)/)) {
+      if (token === "") {
+        continue;
+      }
+      if (/^\s/.test(token)) {
+        if (used > 0) {
+          push(" ", run);
+        }
+        continue;
+      }
+      let word = token;
+      if (used > 0 && used + widthOf(word, run.font, size) > width) {
+        breakLine();
+      }
+      while (widthOf(word, run.font, size) > width) {
+        let fits = 1;
+        while (widthOf(word.slice(0, fits + 1), run.font, size) <= width) {
+          fits += 1;
+        }
+        push(word.slice(0, fits), run);
+        breakLine();
+        word = word.slice(fits);
+      }
+      push(word, run);
+    }
+  }
+  return lines.filter((line) => line.length > 0);
+}
+
+const paragraph = (
+  runs: Run[],
+  size: number,
+  options: {
+    indent?: number;
+    leading?: number;
+    bullet?: boolean;
+    /** Width kept free at the right, e.g. for page numbers. */
+    reserve?: number;
+  } = {},
+): Line[] => {
+  const indent = options.indent ?? 0;
+  const height = size * (options.leading ?? 1.4);
+  const width = TEXT_WIDTH - indent - (options.reserve ?? 0);
+  return wrap(runs, size, width).map((line, index) => ({
+    runs: line,
+    size,
+    height,
+    indent,
+    marker: options.bullet && index === 0 ? "\x95" : undefined,
+  }));
+};
+
+const markdown = (text: string, font: Font = "regular") =>
+  runsOf(parseInline(text), font);
+
+/** Monospaced lines on a shaded band, hard-wrapped at the right margin. */
+function preformatted(
+  text: string,
+  size: number,
+  options: { numbered?: boolean; marks?: Map<number, string> } = {},
+): Line[] {
+  const source = text.split("\n").map(toWinAnsi);
+  const gutter = options.numbered ? String(source.length).length + 2 : 0;
+  const columns = Math.floor(
+    (TEXT_WIDTH - 2 * CODE_PADDING) / (0.6 * size) - gutter,
+  );
+  return source.flatMap((line, index) => {
+    const mark = options.marks?.get(index + 1);
+    const pieces = [];
+    for (let at = 0; at === 0 || at < line.length; at += columns) {
+      pieces.push(line.slice(at, at + columns));
+    }
+    return pieces.map((piece, part) => {
+      const number =
+        options.numbered && part === 0
+          ? String(index + 1).padStart(gutter - 2)
+          : "";
+      const runs: Run[] = [];
+      if (options.numbered) {
+        runs.push({ text: number.padEnd(gutter), font: "mono", gray: 0.55 });
+      }
+      runs.push({ text: piece, font: "mono" });
+      if (mark !== undefined && part === pieces.length - 1) {
+        runs.push({ text: toWinAnsi(`  <- ${mark}`), font: "italic" });
+      }
+      return {
+        runs,
+        size,
+        height: size * 1.35,
+        indent: CODE_PADDING,
+        shade: mark === undefined ? 0.95 : 0.87,
+      };
+    });
+  });
+}
+
+const sampleBlock = ({ sample, diagnostics }: BookSample): Block => {
+  const marks = new Map(
+    (sample.highlight ?? []).map((entry) => [
+      entry.line,
+      entry.label ?? "Highlighted line",
+    ]),
+  );
+  const label = (text: string) =>
+    paragraph([{ text, font: "bold", gray: 0.4 }], 7.5, { leading: 2 });
+  return {
+    spaceBefore: 12,
+    together: true,
+    lines: [
+      ...paragraph([{ text: toWinAnsi(sample.caption), font: "bold" }], 9.5),
+      ...preformatted(sample.content, 8, { numbered: true, marks }),
+      ...(diagnostics !== undefined
+        ? [...label("DIAGNOSTICS"), ...preformatted(diagnostics, 7.5)]
+        : []),
+      ...(sample.expectedOutput !== undefined
+        ? [...label("OUTPUT"), ...preformatted(sample.expectedOutput, 8)]
+        : []),
+    ],
+  };
+};
+
+const contentsLine = (
+  title: string,
+  anchor: string,
+  page: string,
+  chapter: boolean,
+): Block => ({
+  spaceBefore: chapter ? 8 : 0,
+  lines: paragraph(
+    [{ text: toWinAnsi(title), font: chapter ? "bold" : "regular" }],
+    chapter ? 11 : 10,
+    // Leaves room for the dot leaders and the page number.
+    { indent: chapter ? 0 : 14, reserve: 48 },
+  ).map((line, index, lines) => ({
+    ...line,
+    link: anchor,
+    trailer: index === lines.length - 1 ? page : undefined,
+  })),
+});
+
+/** The whole book as blocks; `pageOf` numbers the contents. */
+const bookBlocks = (
+  book: Book,
+  pageOf: (anchor: string) => string,
+): Block[] => [
+  {
+    spaceBefore: 0,
+    lines: [
+      { runs: [], size: 1, height: 180, indent: 0 },
+      ...paragraph([{ text: toWinAnsi(book.title), font: "bold" }], 24, {
+        leading: 1.25,
+      }),
+      { runs: [], size: 1, height: 16, indent: 0 },
+      ...paragraph(
+        [{ text: toWinAnsi(book.subtitle), font: "regular", gray: 0.3 }],
+        12,
+      ),
+    ],
+  },
+  {
+    spaceBefore: 0,
+    pageBreak: true,
+    withNext: true,
+    lines: paragraph([{ text: "Contents", font: "bold" }], 18),
+  },
+  ...book.chapters.flatMap((chapter) => [
+    contentsLine(chapter.title, chapter.id, pageOf(chapter.id), true),
+    ...chapter.sections.map((section) =>
+      contentsLine(section.title, section.id, pageOf(section.id), false),
+    ),
+  ]),
+  ...book.chapters.flatMap((chapter): Block[] => [
+    {
+      spaceBefore: 0,
+      pageBreak: true,
+      withNext: true,
+      anchor: chapter.id,
+      lines: paragraph([{ text: toWinAnsi(chapter.title), font: "bold" }], 20, {
+        leading: 1.25,
+      }),
+    },
+    {
+      spaceBefore: 6,
+      lines: paragraph(markdown(chapter.summary, "italic"), 11),
+    },
+    ...chapter.sections.flatMap((section): Block[] => [
+      {
+        spaceBefore: 18,
+        withNext: true,
+        anchor: section.id,
+        lines: paragraph(
+          [{ text: toWinAnsi(section.title), font: "bold" }],
+          13,
+        ),
+      },
+      {
+        spaceBefore: 4,
+        lines: paragraph(markdown(section.summary), 10.5),
+      },
+      ...section.notes.map((note, index) => ({
+        spaceBefore: index === 0 ? 6 : 2,
+        lines: paragraph(markdown(note), 10.5, { indent: 14, bullet: true }),
+      })),
+      ...section.samples.map(sampleBlock),
+    ]),
+  ]),
+];
+
+type PlacedLine = Line & { y: number };
+
+type Placement = {
+  pages: PlacedLine[][];
+  /** The 0-based page and the top of each anchored block. */
+  anchors: Map<string, { page: number; y: number }>;
+};
+
+const heightOf = (lines: Line[]) =>
+  lines.reduce((sum, line) => sum + line.height, 0);
+
+/** Flows blocks down pages, honoring their breaking rules. */
+function place(blocks: Block[]): Placement {
+  const pages: PlacedLine[][] = [[]];
+  const anchors = new Map<string, { page: number; y: number }>();
+  const top = PAGE_HEIGHT - MARGIN;
+  const usable = top - BOTTOM;
+  let y = top;
+  const newPage = () => {
+    pages.push([]);
+    y = top;
+  };
+
+  blocks.forEach((block, index) => {
+    const pageIsEmpty = pages[pages.length - 1].length === 0;
+    if (block.pageBreak && !pageIsEmpty) {
+      newPage();
+    }
+    const next = blocks[index + 1];
+    const needed =
+      block.spaceBefore +
+      (block.together || block.withNext ? heightOf(block.lines) : 0) +
+      (block.withNext && next
+        ? next.spaceBefore +
+          heightOf(next.together ? next.lines : next.lines.slice(0, 2))
+        : 0);
+    if (
+      (block.together || block.withNext) &&
+      y - needed < BOTTOM &&
+      y < top &&
+      needed <= usable
+    ) {
+      newPage();
+    }
+    if (y < top) {
+      y -= block.spaceBefore;
+    }
+    if (block.anchor) {
+      anchors.set(block.anchor, { page: pages.length - 1, y });
+    }
+    for (const line of block.lines) {
+      if (y - line.height < BOTTOM && y < top) {
+        newPage();
+      }
+      pages[pages.length - 1].push({ ...line, y });
+      y -= line.height;
+    }
+  });
+  return { pages, anchors };
+}
+
+/** A PDF literal string of WinAnsi text. */
+const literal = (text: string) =>
+  `(${[...text]
+    .map((character) => {
+      const code = character.charCodeAt(0);
+      if ("()\\".includes(character)) {
+        return `\\${character}`;
+      }
+      return code < 32 || code > 126
+        ? `\\${code.toString(8).padStart(3, "0")}`
+        : character;
+    })
+    .join("")})`;
+
+/** A PDF text string in UTF-16, for the outline and document info. */
+const textString = (text: string) =>
+  `<FEFF${[...text]
+    .map((character) =>
+      Buffer.from(character, "utf16le").swap16().toString("hex"),
+    )
+    .join("")
+    .toUpperCase()}>`;
+
+const number = (value: number) => value.toFixed(2).replace(/\.?0+$/, "");
+
+function drawLine(line: PlacedLine): string[] {
+  const ops: string[] = [];
+  const baseline = line.y - line.height + (line.height - line.size) / 2 +
+    line.size * 0.22;
+  if (line.shade !== undefined) {
+    ops.push(
+      `${number(line.shade)} g`,
+      `${number(MARGIN)} ${number(line.y - line.height)} ${number(TEXT_WIDTH)} ${number(line.height)} re f`,
+    );
+  }
+  let x = MARGIN + line.indent;
+  if (line.marker) {
+    ops.push(
+      "0 g",
+      `BT /F1 ${number(line.size)} Tf ${number(x - line.size)} ${number(baseline)} Td ${literal(line.marker)} Tj ET`,
+    );
+  }
+  for (const run of line.runs.filter((each) => each.text !== "")) {
+    ops.push(
+      `${number(run.gray ?? 0)} g`,
+      `BT /${FONTS[run.font].name} ${number(line.size)} Tf ${number(x)} ${number(baseline)} Td ${literal(run.text)} Tj ET`,
+    );
+    x += widthOf(run.text, run.font, line.size);
+  }
+  if (line.trailer !== undefined) {
+    const font: Font = line.runs[0]?.font ?? "regular";
+    const trailerWidth = widthOf(line.trailer, font, line.size);
+    const right = MARGIN + TEXT_WIDTH;
+    const dot = widthOf(" .", "regular", line.size);
+    const dots = Math.max(
+      0,
+      Math.floor((right - trailerWidth - x - dot) / dot),
+    );
+    ops.push(
+      "0.5 g",
+      `BT /F1 ${number(line.size)} Tf ${number(right - trailerWidth - dots * dot - dot / 2)} ${number(baseline)} Td ${literal(" .".repeat(dots))} Tj ET`,
+      "0 g",
+      `BT /${FONTS[font].name} ${number(line.size)} Tf ${number(right - trailerWidth)} ${number(baseline)} Td ${literal(line.trailer)} Tj ET`,
+    );
+  }
+  return ops;
+}
+
+const pdfDate = (date: Date) =>
+  `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+
+/**
+ * A PDF of the whole book: a title page, contents with page numbers and
+ * links, then each topic from a new page. Headings stay with what follows
+ * them and samples are never split unless taller than a page. The outline
+ * mirrors the contents, for readers' bookmark panes.
+ */
+export function createPdf(book: Book, created = new Date()): Buffer {
+  // The contents have one line per entry whatever the numbers, so a first
+  // pass with placeholders finds the page of every anchor.
+  const draft = place(bookBlocks(book, () => "000"));
+  const pageOf = (anchor: string) =>
+    String((draft.anchors.get(anchor)?.page ?? 0) + 1);
+  const { pages, anchors } = place(bookBlocks(book, pageOf));
+
+  const objects: (string | Buffer)[] = [];
+  const reserve = () => objects.push("") - 1;
+  const set = (id: number, body: string | Buffer) => {
+    objects[id] = body;
+  };
+  const ref = (id: number) => `${id + 1} 0 R`;
+
+  const catalog = reserve();
+  const pageTree = reserve();
+  const fonts = Object.values(FONTS).map(({ name, base }) => {
+    const id = reserve();
+    set(
+      id,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${base} /Encoding /WinAnsiEncoding >>`,
+    );
+    return `/${name} ${ref(id)}`;
+  });
+  const pageIds = pages.map(() => reserve());
+  const destination = (anchor: string) => {
+    const target = anchors.get(anchor);
+    return target
+      ? `[${ref(pageIds[target.page])} /XYZ 0 ${number(target.y + 12)} null]`
+      : undefined;
+  };
+
+  pages.forEach((lines, index) => {
+    const ops = lines.flatMap(drawLine);
+    if (index > 0) {
+      const label = String(index + 1);
+      ops.push(
+        "0.4 g",
+        `BT /F1 9 Tf ${number((PAGE_WIDTH - widthOf(label, "regular", 9)) / 2)} ${number(MARGIN / 2)} Td ${literal(label)} Tj ET`,
+      );
+    }
+    const data = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+    const content = reserve();
+    set(
+      content,
+      Buffer.concat([
+        Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`),
+        data,
+        Buffer.from("\nendstream"),
+      ]),
+    );
+    const links = lines.flatMap((line) => {
+      const dest = line.link && destination(line.link);
+      return dest
+        ? [
+            `<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${number(MARGIN)} ${number(line.y - line.height)} ${number(MARGIN + TEXT_WIDTH)} ${number(line.y)}] /Dest ${dest} >>`,
+          ]
+        : [];
+    });
+    set(
+      pageIds[index],
+      `<< /Type /Page /Parent ${ref(pageTree)} /MediaBox [0 0 ${number(PAGE_WIDTH)} ${number(PAGE_HEIGHT)}] /Resources << /Font << ${fonts.join(" ")} >> >> /Contents ${ref(content)}${links.length > 0 ? ` /Annots [${links.join(" ")}]` : ""} >>`,
+    );
+  });
+  set(
+    pageTree,
+    `<< /Type /Pages /Kids [${pageIds.map(ref).join(" ")}] /Count ${pageIds.length} >>`,
+  );
+
+  // Outline items link to their parent and siblings in both directions.
+  const outline = reserve();
+  const chapterIds = book.chapters.map(() => reserve());
+  book.chapters.forEach((chapter, index) => {
+    const sectionIds = chapter.sections.map(() => reserve());
+    chapter.sections.forEach((section, at) => {
+      set(
+        sectionIds[at],
+        `<< /Title ${textString(section.title)} /Parent ${ref(chapterIds[index])}${at > 0 ? ` /Prev ${ref(sectionIds[at - 1])}` : ""}${at < sectionIds.length - 1 ? ` /Next ${ref(sectionIds[at + 1])}` : ""} /Dest ${destination(section.id)} >>`,
+      );
+    });
+    set(
+      chapterIds[index],
+      `<< /Title ${textString(chapter.title)} /Parent ${ref(outline)}${index > 0 ? ` /Prev ${ref(chapterIds[index - 1])}` : ""}${index < chapterIds.length - 1 ? ` /Next ${ref(chapterIds[index + 1])}` : ""}${sectionIds.length > 0 ? ` /First ${ref(sectionIds[0])} /Last ${ref(sectionIds[sectionIds.length - 1])} /Count -${sectionIds.length}` : ""} /Dest ${destination(chapter.id)} >>`,
+    );
+  });
+  set(
+    outline,
+    `<< /Type /Outlines${chapterIds.length > 0 ? ` /First ${ref(chapterIds[0])} /Last ${ref(chapterIds[chapterIds.length - 1])}` : ""} /Count ${chapterIds.length} >>`,
+  );
+  set(
+    catalog,
+    `<< /Type /Catalog /Pages ${ref(pageTree)} /Outlines ${ref(outline)} /PageMode /UseOutlines >>`,
+  );
+  const info = reserve();
+  set(
+    info,
+    `<< /Title ${textString(book.title)} /Subject ${textString(book.description)} /CreationDate (${pdfDate(created)}) >>`,
+  );
+
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = parts[0].length;
+  const offsets = objects.map((body, id) => {
+    const start = offset;
+    const object = Buffer.concat([
+      Buffer.from(`${id + 1} 0 obj\n`),
+      Buffer.from(body),
+      Buffer.from("\nendobj\n"),
+    ]);
+    parts.push(object);
+    offset += object.length;
+    return start;
+  });
+  parts.push(
+    Buffer.from(
+      [
+        "xref",
+        `0 ${objects.length + 1}`,
+        "0000000000 65535 f ",
+        ...offsets.map((start) => `${String(start).padStart(10, "0")} 00000 n `),
+        "trailer",
+        `<< /Size ${objects.length + 1} /Root ${ref(catalog)} /Info ${ref(info)} >>`,
+        "startxref",
+        String(offset),
+        "%%EOF",
+        "",
+      ].join("\n"),
+    ),
+  );
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,33 @@
+/**
+ * Wire format of `POST /api/run`. The response body is newline-delimited
+ * JSON: one `RunEvent` per line, ending with an `exit` event.
+ */
+
+export type RunRequest = {
+  source: string;
+  /** Build with AddressSanitizer and UndefinedBehaviorSanitizer. Defaults to true. */
+  sanitize?: boolean;
+};
+
+export type RunOutcome =
+  | "success"
+  | "failure"
+  | "compile-error"
+  | "timeout"
+  | "crash"
+  | "sanitizer"
+  /** The server could not compile or run the program at all. */
+  | "error";
+
+export type RunEvent =
+  | { type: "compile"; ok: boolean; command: string; diagnostics: string }
+  | { type: "stdout"; data: string }
+  | { type: "stderr"; data: string }
+  | {
+      type: "exit";
+      outcome: RunOutcome;
+      code: number | null;
+      signal: string | null;
+      durationMs: number;
+      truncated: boolean;
+    };
@@ -0,0 +1,236 @@
+import { spawn } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { RunEvent, RunOutcome, RunRequest } from "./protocol";
+
+const COMPILER = process.env.CC ?? "cc";
+const COMPILE_TIMEOUT_MS = 10_000;
+const RUN_TIMEOUT_MS = 5_000;
+const CPU_LIMIT_SECONDS = 5;
+const MEMORY_LIMIT_MB = 256;
+/**
+ * `ulimit -u` counts every process of the server's user, not just the
+ * program's, so this caps fork bombs rather than ordinary use.
+ */
+const PROCESS_LIMIT = 256;
+/** How long output may keep arriving after the process exits. */
+const DRAIN_MS = 500;
+const OUTPUT_LIMIT_BYTES = 64 * 1024;
+export const SOURCE_LIMIT_BYTES = 64 * 1024;
+
+const SANITIZER_REPORT =
+  /ERROR: (?:Address|Leak)Sanitizer|runtime error:|SUMMARY: \w+Sanitizer/;
+
+/**
+ * Compiling and running arbitrary C is only safe on a developer's machine.
+ * Deployments have to opt in explicitly.
+ */
+export const isPlaygroundEnabled = () =>
+  process.env.NODE_ENV !== "production" ||
+  process.env.ENABLE_PLAYGROUND === "1";
+
+type ProcessResult = {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+};
+
+function runProcess(
+  command: string,
+  args: string[],
+  options: {
+    cwd: string;
+    env: Record<string, string | undefined>;
+    timeoutMs: number;
+    signal: AbortSignal;
+    onStdout: (data: string) => void;
+    onStderr: (data: string) => void;
+  },
+): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      // A minimal environment: nothing from the server leaks into the program.
+      env: options.env as NodeJS.ProcessEnv,
+      stdio: ["ignore", "pipe", "pipe"],
+      // Its own process group, so that killing it takes its children along.
+      detached: true,
+    });
+    let timedOut = false;
+    let settled = false;
+    const kill = () => {
+      try {
+        if (child.pid !== undefined) {
+          process.kill(-child.pid, "SIGKILL");
+        }
+      } catch {
+        // The whole group has already exited.
+      }
+    };
+    const settle = (result: Omit<ProcessResult, "timedOut">) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      clearTimeout(deadline);
+      options.signal.removeEventListener("abort", kill);
+      kill();
+      // A child that escaped the group may still hold the pipes open.
+      child.stdout.destroy();
+      child.stderr.destroy();
+      resolve({ ...result, timedOut });
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, options.timeoutMs);
+    // Settles even if `exit` never arrives or the pipes never close.
+    const deadline = setTimeout(() => {
+      timedOut = true;
+      settle({ code: null, signal: "SIGKILL" });
+    }, options.timeoutMs + DRAIN_MS);
+    options.signal.addEventListener("abort", kill, { once: true });
+
+    child.stdout.setEncoding("utf8").on("data", options.onStdout);
+    child.stderr.setEncoding("utf8").on("data", options.onStderr);
+    child.on("error", (error) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        clearTimeout(deadline);
+        options.signal.removeEventListener("abort", kill);
+        reject(error);
+      }
+    });
+    child.on("exit", (code, signal) => {
+      // Processes it left behind would keep the pipes, and `close`, waiting.
+      kill();
+      setTimeout(() => settle({ code, signal }), DRAIN_MS);
+    });
+    child.on("close", (code, signal) => settle({ code, signal }));
+  });
+}
+
+/**
+ * Compiles `request.source` in a throwaway directory and runs the result with
+ * CPU, memory, output, and wall-clock limits, reporting progress through
+ * `emit` as it happens.
+ */
+export async function compileAndRun(
+  request: RunRequest,
+  emit: (event: RunEvent) => void,
+  signal: AbortSignal,
+): Promise<void> {
+  const sanitize = request.sanitize ?? true;
+  const workdir = await mkdtemp(path.join(os.tmpdir(), "c-playground-"));
+  const started = Date.now();
+  const env = { PATH: process.env.PATH, LANG: "C.UTF-8" };
+
+  try {
+    await writeFile(path.join(workdir, "main.c"), request.source);
+
+    const flags = ["-std=c11", "-Wall", "-Wextra", "-g", "-O0"];
+    if (sanitize) {
+      flags.push("-fsanitize=address,undefined", "-fno-omit-frame-pointer");
+    }
+    const args = [...flags, "main.c", "-o", "program"];
+    let diagnostics = "";
+    const compiled = await runProcess(COMPILER, args, {
+      cwd: workdir,
+      env,
+      timeoutMs: COMPILE_TIMEOUT_MS,
+      signal,
+      onStdout: (data) => (diagnostics += data),
+      onStderr: (data) => (diagnostics += data),
+    });
+    const compiledOk = compiled.code === 0;
+    emit({
+      type: "compile",
+      ok: compiledOk,
+      command: [COMPILER, ...args].join(" "),
+      diagnostics: compiled.timedOut
+        ? `${diagnostics}\nCompilation timed out after ${COMPILE_TIMEOUT_MS / 1000} s.`
+        : diagnostics,
+    });
+    if (!compiledOk) {
+      emit({
+        type: "exit",
+        outcome: "compile-error",
+        code: compiled.code,
+        signal: compiled.signal,
+        durationMs: Date.now() - started,
+        truncated: false,
+      });
+      return;
+    }
+
+    // ASan reserves terabytes of address space, so `ulimit -v` would stop it
+    // from starting; `hard_rss_limit_mb` in `ASAN_OPTIONS` caps its memory
+    // instead.
+    const limits = [
+      `ulimit -t ${CPU_LIMIT_SECONDS}`,
+      "ulimit -f 2048",
+      // bash names the process limit `-u`, dash `-p`.
+      `{ ulimit -u ${PROCESS_LIMIT} || ulimit -p ${PROCESS_LIMIT}; } 2>/dev/null`,
+    ];
+    if (!sanitize) {
+      limits.push(`ulimit -v ${MEMORY_LIMIT_MB * 1024}`);
+    }
+    let written = 0;
+    let truncated = false;
+    let stderr = "";
+    const forward = (type: "stdout" | "stderr") => (data: string) => {
+      if (type === "stderr" && stderr.length < OUTPUT_LIMIT_BYTES) {
+        stderr += data;
+      }
+      if (written >= OUTPUT_LIMIT_BYTES) {
+        truncated = true;
+        return;
+      }
+      const chunk = data.slice(0, OUTPUT_LIMIT_BYTES - written);
+      written += chunk.length;
+      truncated ||= chunk.length < data.length;
+      emit({ type, data: chunk });
+    };
+
+    const ran = await runProcess(
+      "sh",
+      ["-c", `${limits.join("; ")}; exec ./program`],
+      {
+        cwd: workdir,
+        env: {
+          ...env,
+          ASAN_OPTIONS: `hard_rss_limit_mb=${MEMORY_LIMIT_MB}:malloc_limit_mb=${MEMORY_LIMIT_MB}:detect_leaks=1`,
+          UBSAN_OPTIONS: "halt_on_error=1:print_stacktrace=1",
+        },
+        timeoutMs: RUN_TIMEOUT_MS,
+        signal,
+        onStdout: forward("stdout"),
+        onStderr: forward("stderr"),
+      },
+    );
+
+    let outcome: RunOutcome;
+    if (ran.timedOut || ran.signal === "SIGXCPU") {
+      outcome = "timeout";
+    } else if (SANITIZER_REPORT.test(stderr)) {
+      outcome = "sanitizer";
+    } else if (ran.signal) {
+      outcome = "crash";
+    } else {
+      outcome = ran.code === 0 ? "success" : "failure";
+    }
+    emit({
+      type: "exit",
+      outcome,
+      code: ran.code,
+      signal: ran.signal,
+      durationMs: Date.now() - started,
+      truncated,
+    });
+  } finally {
+    await rm(workdir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,117 @@
+import { createLocalStore } from "../_storage/localStore";
+
+/**
+ * Reading progress, kept in `localStorage` and keyed by `progressKey` (the
+ * course slug plus the subtopic's id). Components subscribe
+ * through `useProgress`, so marking a subtopic done anywhere updates every
+ * indicator on the page.
+ */
+
+const STORAGE_KEY = "c-arrays-notes:progress";
+const FORMAT_VERSION = 1;
+
+export type Progress = {
+  /** Progress key to the ISO timestamp the subtopic was completed at. */
+  completed: Record<string, string>;
+};
+
+export type ProgressExport = Progress & {
+  version: typeof FORMAT_VERSION;
+  exportedAt: string;
+};
+
+const EMPTY: Progress = { completed: {} };
+
+const isCompletedMap = (value: unknown): value is Record<string, string> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((at) => typeof at === "string");
+
+const store = createLocalStore<Progress>(
+  STORAGE_KEY,
+  FORMAT_VERSION,
+  (parsed) => {
+    const completed = (parsed as Progress | null)?.completed;
+    return isCompletedMap(completed) ? { completed } : EMPTY;
+  },
+);
+
+export function useProgress(): Progress {
+  return store.use();
+}
+
+export function setCompleted(key: string, done: boolean) {
+  const completed = { ...store.get().completed };
+  if (done) {
+    completed[key] ??= new Date().toISOString();
+  } else {
+    delete completed[key];
+  }
+  store.write({ completed });
+}
+
+/**
+ * Moves progress saved under old keys to the keys that replace them, keeping
+ * the earlier completion time when both are set.
+ */
+export function renameProgressKeys(renames: Record<string, string>) {
+  const completed = { ...store.get().completed };
+  let changed = false;
+  for (const [from, to] of Object.entries(renames)) {
+    const at = completed[from];
+    if (at !== undefined) {
+      if (!completed[to] || at < completed[to]) {
+        completed[to] = at;
+      }
+      delete completed[from];
+      changed = true;
+    }
+  }
+  if (changed) {
+    store.write({ completed });
+  }
+}
+
+/** Clears the given subtopics, leaving other courses' progress alone. */
+export function resetProgress(keys: string[]) {
+  const completed = { ...store.get().completed };
+  keys.forEach((key) => delete completed[key]);
+  store.write({ completed });
+}
+
+/** The completed subtopics among `keys`, ready to save as a file. */
+export function exportProgress(keys: string[]): ProgressExport {
+  const { completed } = store.get();
+  return {
+    version: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    completed: Object.fromEntries(
+      keys.filter((key) => completed[key]).map((key) => [key, completed[key]]),
+    ),
+  };
+}
+
+/**
+ * Merges an export into the stored progress, keeping the earliest completion
+ * time when both sides have one. Returns how many subtopics were added.
+ */
+export function importProgress(json: string): number {
+  const parsed: unknown = JSON.parse(json);
+  const data = parsed as Partial<ProgressExport> | null;
+  if (data?.version !== FORMAT_VERSION || !isCompletedMap(data.completed)) {
+    throw new Error("This file is not a progress export from these notes.");
+  }
+  const merged = { ...store.get().completed };
+  let added = 0;
+  for (const [key, at] of Object.entries(data.completed)) {
+    if (!merged[key]) {
+      added += 1;
+    }
+    if (!merged[key] || at < merged[key]) {
+      merged[key] = at;
+    }
+  }
+  store.write({ completed: merged });
+  return added;
+}
@@ -0,0 +1,69 @@
+/**
+ * The course's notes as an Anki deck: a tab-separated text file with the
+ * headers Anki's importer reads (File > Import), one note per row.
+ */
+import { clozeTerms, noteId } from "../_content/flashcards";
+import { escapeHtml, inlineHtml, parseInline } from "../_content/markdown";
+import { findSubtopicById, getSubtopicEntries } from "../_content/navigation";
+import { plainText } from "../_content/references";
+import type { Course } from "../_content/types";
+
+/** Tabs separate fields and newlines rows, so neither may appear in one. */
+const field = (html: string) =>
+  html.replace(/\t/g, " ").replace(/\r?\n/g, "<br>");
+
+/**
+ * Anki reads `}}` as the end of a cloze and `::` as the start of its hint,
+ * both of which C code can contain.
+ */
+const clozeCode = (text: string) => {
+  const html = escapeHtml(text).replace(/:/g, "&#58;").replace(/}/g, "&#125;");
+  return `<code>${html}</code>`;
+};
+
+/**
+ * Question notes become Basic notes, and the others Cloze notes with one
+ * deletion per distinct code span. Rows keep their note's id as the GUID, so
+ * importing a newer file updates the cards in place and keeps their history.
+ */
+export function createAnkiDeck(course: Course): string {
+  const titleOf = (id: string) => findSubtopicById(course, id)?.subtopic.title;
+  const rows = getSubtopicEntries(course).flatMap(({ subtopic }) =>
+    (subtopic.notes ?? []).flatMap((note) => {
+      const id = noteId(course, subtopic, note);
+      const tags = `${course.slug} ${subtopic.id}`;
+      const text = plainText(note.text, titleOf);
+      if (note.question) {
+        const question = plainText(note.question, titleOf);
+        return [
+          [
+            id,
+            "Basic",
+            inlineHtml(parseInline(question)),
+            inlineHtml(parseInline(text)),
+            tags,
+          ],
+        ];
+      }
+      const terms = clozeTerms(text);
+      if (terms.length === 0) {
+        return [];
+      }
+      const cloze = inlineHtml(
+        parseInline(text),
+        (code) => `{{c${terms.indexOf(code) + 1}::${clozeCode(code)}}}`,
+      );
+      return [[id, "Cloze", cloze, escapeHtml(subtopic.title), tags]];
+    }),
+  );
+  return [
+    "#separator:tab",
+    "#html:true",
+    "#guid column:1",
+    "#notetype column:2",
+    `#deck:${course.title}`,
+    "#tags column:5",
+    ...rows.map((row) => row.map(field).join("\t")),
+    "",
+  ].join("\n");
+}
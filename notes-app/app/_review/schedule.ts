@@ -0,0 +1,86 @@
+/**
+ * SM-2 spaced repetition, as in SuperMemo 2: each card carries an ease
+ * factor that grows with easy answers and shrinks with hard ones, and the
+ * gap between reviews is multiplied by it. Keep this module free of Node APIs.
+ */
+
+/** A calendar day in the reader's time zone, `YYYY-MM-DD`. */
+export type Day = string;
+
+export type CardSchedule = {
+  /** Correct answers in a row; a lapse starts over. */
+  repetitions: number;
+  /** Days until the next review; 0 keeps the card in today's session. */
+  interval: number;
+  ease: number;
+  due: Day;
+  /** The day the card was first reviewed, for the daily limit on new cards. */
+  introduced: Day;
+  /** ISO timestamp, so cards failed again come back after the others. */
+  reviewedAt: string;
+};
+
+/** SM-2's grades are 0–5; the buttons map onto four of them. */
+export const GRADES = [
+  { grade: 1, label: "Again" },
+  { grade: 3, label: "Hard" },
+  { grade: 4, label: "Good" },
+  { grade: 5, label: "Easy" },
+] as const;
+
+export type Grade = (typeof GRADES)[number]["grade"];
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export const today = (now = new Date()): Day =>
+  [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, "0"),
+    String(now.getDate()).padStart(2, "0"),
+  ].join("-");
+
+const addDays = (day: Day, days: number): Day => {
+  const [year, month, date] = day.split("-").map(Number);
+  return today(new Date(year, month - 1, date + days));
+};
+
+/**
+ * The schedule after answering with `grade`. Unlike SM-2, which waits a day,
+ * a lapse stays due today so it comes back in the same session.
+ */
+export function schedule(
+  previous: CardSchedule | undefined,
+  grade: Grade,
+  day: Day,
+  now = new Date(),
+): CardSchedule {
+  const repetitions = previous?.repetitions ?? 0;
+  const ease = Math.max(
+    MIN_EASE,
+    (previous?.ease ?? INITIAL_EASE) +
+      (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+  );
+  let interval: number;
+  if (grade < 3) {
+    interval = 0;
+  } else if (repetitions === 0) {
+    interval = 1;
+  } else if (repetitions === 1) {
+    interval = 6;
+  } else {
+    interval = Math.round(Math.max(previous?.interval ?? 1, 1) * ease);
+  }
+  return {
+    repetitions: grade < 3 ? 0 : repetitions + 1,
+    interval,
+    ease: Math.round(ease * 100) / 100,
+    due: addDays(day, interval),
+    introduced: previous?.introduced ?? day,
+    reviewedAt: now.toISOString(),
+  };
+}
+
+/** "now", "1 day", "6 days", … for the button that leads to `interval`. */
+export const describeInterval = (interval: number) =>
+  interval === 0 ? "now" : interval === 1 ? "1 day" : `${interval} days`;
@@ -0,0 +1,77 @@
+import { createLocalStore } from "../_storage/localStore";
+import type { CardSchedule } from "./schedule";
+
+/**
+ * Flashcard schedules, kept in `localStorage` and keyed by card id (see
+ * `getFlashcards`), which starts with the course's slug.
+ */
+
+const STORAGE_KEY = "c-arrays-notes:review";
+const FORMAT_VERSION = 1;
+
+export type Reviews = {
+  cards: Record<string, CardSchedule>;
+};
+
+const EMPTY: Reviews = { cards: {} };
+
+const isSchedule = (value: unknown): value is CardSchedule => {
+  const schedule = value as Partial<CardSchedule> | null;
+  return (
+    typeof schedule?.repetitions === "number" &&
+    typeof schedule.interval === "number" &&
+    typeof schedule.ease === "number" &&
+    typeof schedule.due === "string" &&
+    typeof schedule.introduced === "string" &&
+    typeof schedule.reviewedAt === "string"
+  );
+};
+
+const store = createLocalStore<Reviews>(
+  STORAGE_KEY,
+  FORMAT_VERSION,
+  (parsed) => {
+    const cards = (parsed as Reviews | null)?.cards;
+    if (typeof cards !== "object" || cards === null || Array.isArray(cards)) {
+      return EMPTY;
+    }
+    // One malformed entry only loses that card's schedule.
+    return {
+      cards: Object.fromEntries(
+        Object.entries(cards).filter(([, schedule]) => isSchedule(schedule)),
+      ),
+    };
+  },
+);
+
+export function useReviews(): Reviews {
+  return store.use();
+}
+
+export function saveSchedule(id: string, schedule: CardSchedule) {
+  store.write({ cards: { ...store.get().cards, [id]: schedule } });
+}
+
+/** Drops the schedules under `prefix` whose cards are no longer in `ids`. */
+export function pruneSchedules(prefix: string, ids: string[]) {
+  const keep = new Set(ids);
+  const stale = Object.keys(store.get().cards).filter(
+    (id) => id.startsWith(prefix) && !keep.has(id),
+  );
+  if (stale.length > 0) {
+    resetSchedules(stale);
+  }
+}
+
+/** Forgets the cards under `prefix`, leaving other courses' reviews alone. */
+export function resetReviews(prefix: string) {
+  resetSchedules(
+    Object.keys(store.get().cards).filter((id) => id.startsWith(prefix)),
+  );
+}
+
+function resetSchedules(ids: string[]) {
+  const cards = { ...store.get().cards };
+  ids.forEach((id) => delete cards[id]);
+  store.write({ cards });
+}
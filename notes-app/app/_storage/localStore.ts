@@ -0,0 +1,68 @@
+import { useSyncExternalStore } from "react";
+
+/**
+ * A value kept in `localStorage`, with its format version stored beside it.
+ * Components subscribe through `use`, so a change made anywhere on the page,
+ * or in another tab, updates every component that shows it.
+ */
+export type LocalStore<T> = {
+  use: () => T;
+  get: () => T;
+  write: (next: T) => void;
+};
+
+/**
+ * `validate` turns whatever was stored, possibly `null` or from an older
+ * format, into a value; what it returns for `null` is the empty value used
+ * until the browser's storage is read.
+ */
+export function createLocalStore<T extends object>(
+  key: string,
+  version: number,
+  validate: (parsed: unknown) => T,
+): LocalStore<T> {
+  const empty = validate(null);
+  const listeners = new Set<() => void>();
+  let current: T | undefined;
+
+  const read = (): T => {
+    try {
+      return validate(JSON.parse(window.localStorage.getItem(key) ?? "null"));
+    } catch {
+      return empty;
+    }
+  };
+
+  const get = () => (current ??= read());
+
+  const write = (next: T) => {
+    current = next;
+    try {
+      window.localStorage.setItem(key, JSON.stringify({ version, ...next }));
+    } catch {
+      // Storage can be full or disabled; the value then lasts for the visit.
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === key) {
+        current = read();
+        listener();
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", onStorage);
+    };
+  };
+
+  return {
+    use: () => useSyncExternalStore(subscribe, get, () => empty),
+    get,
+    write,
+  };
+}
@@ -0,0 +1,31 @@
+import {
+  apiError,
+  apiResponse,
+  getSamples,
+} from "../../../../../_api/content";
+import { getCourse, getCourses } from "../../../../../_content/courses";
+
+type SampleRouteContext = {
+  params: Promise<{ course: string; id: string }>;
+};
+
+export const dynamic = "force-static";
+
+export function generateStaticParams() {
+  return getCourses().flatMap((course) =>
+    getSamples(course).map((sample) => ({
+      course: course.slug,
+      id: sample.id,
+    })),
+  );
+}
+
+export async function GET(_request: Request, { params }: SampleRouteContext) {
+  const { course: slug, id } = await params;
+  const course = getCourse(slug);
+  const sample = course && getSamples(course).find((each) => each.id === id);
+  if (!sample) {
+    return apiError(404, "Unknown sample.");
+  }
+  return apiResponse(sample);
+}
@@ -0,0 +1,29 @@
+import { topicMarkdown } from "../../../../../../_api/markdown";
+import {
+  findTopic,
+  getAllTopicEntries,
+} from "../../../../../../_content/navigation";
+
+type TopicMarkdownContext = {
+  params: Promise<{ course: string; id: string }>;
+};
+
+export const dynamic = "force-static";
+
+export function generateStaticParams() {
+  return getAllTopicEntries().map((entry) => ({
+    course: entry.course.slug,
+    id: entry.topic.id,
+  }));
+}
+
+export async function GET(_request: Request, { params }: TopicMarkdownContext) {
+  const { course, id } = await params;
+  const entry = findTopic(course, id);
+  if (!entry) {
+    return new Response("Unknown topic.", { status: 404 });
+  }
+  return new Response(topicMarkdown(entry.course, entry.topic), {
+    headers: { "Content-Type": "text/markdown; charset=utf-8" },
+  });
+}
@@ -0,0 +1,27 @@
+import { apiError, apiResponse, toTopic } from "../../../../../_api/content";
+import {
+  findTopic,
+  getAllTopicEntries,
+} from "../../../../../_content/navigation";
+
+type TopicRouteContext = {
+  params: Promise<{ course: string; id: string }>;
+};
+
+export const dynamic = "force-static";
+
+export function generateStaticParams() {
+  return getAllTopicEntries().map((entry) => ({
+    course: entry.course.slug,
+    id: entry.topic.id,
+  }));
+}
+
+export async function GET(_request: Request, { params }: TopicRouteContext) {
+  const { course, id } = await params;
+  const entry = findTopic(course, id);
+  if (!entry) {
+    return apiError(404, "Unknown topic.");
+  }
+  return apiResponse(toTopic(entry.course, entry.topic));
+}
@@ -0,0 +1,26 @@
+import {
+  apiError,
+  apiResponse,
+  toTopicSummary,
+} from "../../../../_api/content";
+import { getCourse, getCourses } from "../../../../_content/courses";
+
+type TopicsRouteContext = {
+  params: Promise<{ course: string }>;
+};
+
+export const dynamic = "force-static";
+
+export function generateStaticParams() {
+  return getCourses().map((course) => ({ course: course.slug }));
+}
+
+export async function GET(_request: Request, { params }: TopicsRouteContext) {
+  const course = getCourse((await params).course);
+  if (!course) {
+    return apiError(404, "Unknown course.");
+  }
+  return apiResponse(
+    course.topics.map((topic) => toTopicSummary(course, topic)),
+  );
+}
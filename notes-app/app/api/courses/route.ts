@@ -0,0 +1,8 @@
+import { apiResponse, toCourseSummary } from "../../_api/content";
+import { getCourses } from "../../_content/courses";
+
+export const dynamic = "force-static";
+
+export function GET() {
+  return apiResponse(getCourses().map(toCourseSummary));
+}
@@ -0,0 +1,75 @@
+import type { RunEvent, RunRequest } from "../../_playground/protocol";
+import {
+  compileAndRun,
+  isPlaygroundEnabled,
+  SOURCE_LIMIT_BYTES,
+} from "../../_playground/runner";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const error = (status: number, message: string) =>
+  Response.json({ error: message }, { status });
+
+export async function POST(request: Request) {
+  if (!isPlaygroundEnabled()) {
+    return error(403, "The playground is disabled on this server.");
+  }
+
+  let body: RunRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return error(400, "Expected a JSON body.");
+  }
+  if (typeof body?.source !== "string" || body.source.trim() === "") {
+    return error(400, "`source` must be a non-empty string.");
+  }
+  if (Buffer.byteLength(body.source) > SOURCE_LIMIT_BYTES) {
+    return error(413, `\`source\` is larger than ${SOURCE_LIMIT_BYTES} bytes.`);
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const started = Date.now();
+      let exited = false;
+      const emit = (event: RunEvent) => {
+        exited ||= event.type === "exit";
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+      try {
+        await compileAndRun(
+          { source: body.source, sanitize: body.sanitize !== false },
+          emit,
+          request.signal,
+        );
+      } catch (cause) {
+        emit({
+          type: "stderr",
+          data: `Playground error: ${(cause as Error).message}\n`,
+        });
+        // Clients read until `exit`, so the stream always ends with one.
+        if (!exited) {
+          emit({
+            type: "exit",
+            outcome: "error",
+            code: null,
+            signal: null,
+            durationMs: Date.now() - started,
+            truncated: false,
+          });
+        }
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
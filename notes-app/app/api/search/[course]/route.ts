@@ -0,0 +1,21 @@
+import { getCourse, getCourses } from "../../../_content/courses";
+import { buildSearchIndex } from "../../../_content/searchIndex";
+
+type SearchRouteContext = {
+  params: Promise<{ course: string }>;
+};
+
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getCourses().map((course) => ({ course: course.slug }));
+}
+
+export async function GET(_request: Request, { params }: SearchRouteContext) {
+  const course = getCourse((await params).course);
+  if (!course) {
+    return Response.json({ error: "Unknown course." }, { status: 404 });
+  }
+  return Response.json(buildSearchIndex(course));
+}
@@ -0,0 +1,31 @@
+import {
+  bundleResponse,
+  createSampleBundle,
+} from "../../../../_bundle/samples";
+import { findTopic, getAllTopicEntries } from "../../../../_content/navigation";
+
+type DownloadContext = {
+  params: Promise<{ course: string; topic: string }>;
+};
+
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getAllTopicEntries()
+    .filter((entry) => entry.topic.subtopics.some((subtopic) => subtopic.code))
+    .map((entry) => ({ course: entry.course.slug, topic: entry.slug }));
+}
+
+export async function GET(_request: Request, { params }: DownloadContext) {
+  const { course, topic } = await params;
+  const entry = findTopic(course, topic);
+  if (!entry) {
+    return new Response("Unknown topic.", { status: 404 });
+  }
+  const name = `${entry.course.slug}-${entry.slug}`;
+  return bundleResponse(
+    createSampleBundle(name, entry.topic.title, [entry.topic]),
+    `${name}.tar.gz`,
+  );
+}
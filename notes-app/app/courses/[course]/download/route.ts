@@ -0,0 +1,25 @@
+import { bundleResponse, createSampleBundle } from "../../../_bundle/samples";
+import { getCourse, getCourses } from "../../../_content/courses";
+
+type DownloadContext = {
+  params: Promise<{ course: string }>;
+};
+
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getCourses().map((course) => ({ course: course.slug }));
+}
+
+export async function GET(_request: Request, { params }: DownloadContext) {
+  const course = getCourse((await params).course);
+  if (!course) {
+    return new Response("Unknown course.", { status: 404 });
+  }
+  const name = `${course.slug}-samples`;
+  return bundleResponse(
+    createSampleBundle(name, course.title, course.topics),
+    `${name}.tar.gz`,
+  );
+}
@@ -0,0 +1,62 @@
+import CommandPalette from "../../_components/CommandPalette";
+import CourseSidebar from "../../_components/CourseSidebar";
+import styles from "../../_components/CourseSidebar.module.css";
+import KeyboardShortcuts from "../../_components/KeyboardShortcuts";
+import { getCourse } from "../../_content/courses";
+import {
+  courseHref,
+  getPaletteEntries,
+  getLegacyProgressKeys,
+  getSubtopicEntries,
+  progressKey,
+  subtopicHref,
+  topicHref,
+} from "../../_content/navigation";
+
+type CourseLayoutProps = {
+  children: React.ReactNode;
+  params: Promise<{ course: string }>;
+};
+
+/**
+ * Every page of a course shares its contents sidebar, command palette, and
+ * keyboard shortcuts.
+ */
+export default async function CourseLayout({
+  children,
+  params,
+}: CourseLayoutProps) {
+  const course = getCourse((await params).course);
+  if (!course) {
+    return children;
+  }
+
+  return (
+    <div className={styles.withSidebar}>
+      <CourseSidebar
+        title={course.title}
+        href={courseHref(course)}
+        topics={course.topics.map((topic) => ({
+          id: topic.id,
+          title: topic.title,
+          href: topicHref(course, topic),
+          subtopics: topic.subtopics.map((subtopic) => ({
+            id: subtopic.id,
+            title: subtopic.title,
+            href: subtopicHref(course, topic, subtopic),
+            progressKey: progressKey(course, subtopic),
+          })),
+        }))}
+        legacyProgressKeys={getLegacyProgressKeys(course)}
+      />
+      {children}
+      <CommandPalette entries={getPaletteEntries(course)} />
+      <KeyboardShortcuts
+        subtopics={getSubtopicEntries(course).map((entry) => ({
+          id: entry.subtopic.id,
+          href: entry.href,
+        }))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import Breadcrumbs from "../../_components/Breadcrumbs";
+import CopyLink from "../../_components/CopyLink";
+import InlineText from "../../_components/InlineText";
+import ProgressSummary from "../../_components/ProgressSummary";
+import Search from "../../_components/Search";
+import StandardBadge from "../../_components/StandardBadge";
+import StandardFilter from "../../_components/StandardFilter";
+import { getCourse, getCourses } from "../../_content/courses";
+import {
+  courseDownloadHref,
+  coursePrintHref,
+  courseReviewHref,
+  progressKey,
+  subtopicHref,
+  topicHref,
+} from "../../_content/navigation";
+import styles from "../../page.module.css";
+
+type CoursePageProps = {
+  params: Promise<{ course: string }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getCourses().map((course) => ({ course: course.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: CoursePageProps): Promise<Metadata> {
+  const course = getCourse((await params).course);
+  return course ? { ...course.metadata } : {};
+}
+
+export default async function CoursePage({ params }: CoursePageProps) {
+  const course = getCourse((await params).course);
+  if (!course) {
+    notFound();
+  }
+  const { topics } = course;
+
+  return (
+    <div className={styles.page}>
+      <main className={styles.main}>
+        <Breadcrumbs
+          items={[{ label: "Courses", href: "/" }, { label: course.title }]}
+        />
+
+        <header className={styles.hero}>
+          <p className={styles.kicker}>{course.kicker}</p>
+          <h1>{course.title}</h1>
+          <p className={styles.lede}>{course.lede}</p>
+          <Search course={course.slug} />
+          <StandardFilter />
+          <ProgressSummary
+            courseSlug={course.slug}
+            className={styles.toc}
+            headingClassName={styles.tocHeading}
+            progressKeys={topics.flatMap((topic) =>
+              topic.subtopics.map((subtopic) => progressKey(course, subtopic)),
+            )}
+          />
+        </header>
+
+        <section className={styles.topics}>
+          {topics.map((topic) => (
+            <article key={topic.title} className={styles.topic}>
+              <h2 id={topic.id}>
+                <Link href={topicHref(course, topic)}>{topic.title}</Link>
+                <CopyLink id={topic.id} label={topic.title} />
+              </h2>
+              <p className={styles.topicSummary}>
+                <InlineText text={topic.summary} />
+              </p>
+
+              <ul className={styles.subtopics}>
+                {topic.subtopics.map((subtopic) => (
+                  <li key={subtopic.title} data-standard={subtopic.standard}>
+                    <Link href={subtopicHref(course, topic, subtopic)}>
+                      {subtopic.title}
+                    </Link>
+                    {subtopic.standard && (
+                      <StandardBadge standard={subtopic.standard} />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </article>
+          ))}
+        </section>
+
+        <footer className={styles.footer}>
+          <p>
+            Need a printable copy?{" "}
+            <Link href={coursePrintHref(course)}>
+              Print the whole course or save it as PDF
+            </Link>
+            , or{" "}
+            <a href={courseDownloadHref(course)} download>
+              download every code sample
+            </a>{" "}
+            with a Makefile to compile and experiment in your favorite editor.
+          </p>
+          <p>
+            Want it to stick?{" "}
+            <Link href={courseReviewHref(course)}>
+              Review the notes as flashcards
+            </Link>{" "}
+            with spaced repetition, or take them to Anki.
+          </p>
+        </footer>
+      </main>
+    </div>
+  );
+}
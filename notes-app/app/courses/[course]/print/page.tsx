@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import PrintedCourse from "../../../_components/PrintedCourse";
+import { getCourse, getCourses } from "../../../_content/courses";
+import { courseHref } from "../../../_content/navigation";
+import { createBook } from "../../../_export/book";
+
+type PrintPageProps = {
+  params: Promise<{ course: string }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getCourses().map((course) => ({ course: course.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: PrintPageProps): Promise<Metadata> {
+  const course = getCourse((await params).course);
+  return course
+    ? {
+        title: `${course.metadata.title} — Printable Edition`,
+        description: course.metadata.description,
+      }
+    : {};
+}
+
+export default async function PrintPage({ params }: PrintPageProps) {
+  const course = getCourse((await params).course);
+  if (!course) {
+    notFound();
+  }
+  return <PrintedCourse book={createBook(course)} href={courseHref(course)} />;
+}
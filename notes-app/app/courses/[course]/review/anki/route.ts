@@ -0,0 +1,26 @@
+import { getCourse, getCourses } from "../../../../_content/courses";
+import { createAnkiDeck } from "../../../../_review/anki";
+
+type AnkiContext = {
+  params: Promise<{ course: string }>;
+};
+
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getCourses().map((course) => ({ course: course.slug }));
+}
+
+export async function GET(_request: Request, { params }: AnkiContext) {
+  const course = getCourse((await params).course);
+  if (!course) {
+    return new Response("Unknown course.", { status: 404 });
+  }
+  return new Response(createAnkiDeck(course), {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${course.slug}-flashcards.txt"`,
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Breadcrumbs from "../../../_components/Breadcrumbs";
+import InlineText from "../../../_components/InlineText";
+import ReviewSession, {
+  type ReviewCard,
+} from "../../../_components/ReviewSession";
+import reviewStyles from "../../../_components/ReviewSession.module.css";
+import { getCourse, getCourses } from "../../../_content/courses";
+import { type Flashcard, getFlashcards } from "../../../_content/flashcards";
+import { courseAnkiHref, courseHref } from "../../../_content/navigation";
+import type { Course } from "../../../_content/types";
+import styles from "../../../page.module.css";
+
+type ReviewPageProps = {
+  params: Promise<{ course: string }>;
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getCourses().map((course) => ({ course: course.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: ReviewPageProps): Promise<Metadata> {
+  const course = getCourse((await params).course);
+  return course
+    ? {
+        title: `${course.metadata.title} — Flashcards`,
+        description: `Review ${course.title} with spaced repetition.`,
+      }
+    : {};
+}
+
+/** A cloze card hides its term on the front and marks it on the back. */
+function reviewCard(course: Course, card: Flashcard): ReviewCard {
+  const { id, subtopic, href } = card;
+  if (card.kind === "question") {
+    return {
+      id,
+      subtopic,
+      href,
+      front: <InlineText text={card.question} course={course} />,
+      back: <InlineText text={card.answer} course={course} />,
+    };
+  }
+  const face = (hidden: boolean) => (
+    <InlineText
+      text={card.text}
+      course={course}
+      code={(code) =>
+        code !== card.term ? (
+          <code>{code}</code>
+        ) : hidden ? (
+          <span className={reviewStyles.blank} aria-label="blank">
+            […]
+          </span>
+        ) : (
+          <mark>
+            <code>{code}</code>
+          </mark>
+        )
+      }
+    />
+  );
+  return { id, subtopic, href, front: face(true), back: face(false) };
+}
+
+export default async function ReviewPage({ params }: ReviewPageProps) {
+  const course = getCourse((await params).course);
+  if (!course) {
+    notFound();
+  }
+
+  return (
+    <div className={styles.page}>
+      <main className={styles.main}>
+        <Breadcrumbs
+          items={[
+            { label: "Courses", href: "/" },
+            { label: course.title, href: courseHref(course) },
+            { label: "Flashcards" },
+          ]}
+        />
+
+        <header className={styles.hero}>
+          <p className={styles.kicker}>Review</p>
+          <h1>Flashcards</h1>
+          <p className={styles.lede}>
+            Every note in the course, asked back a little before you would
+            forget it. Your schedule stays in this browser.
+          </p>
+        </header>
+
+        <ReviewSession
+          course={course.slug}
+          cards={getFlashcards(course).map((card) => reviewCard(course, card))}
+        />
+
+        <footer className={styles.footer}>
+          <p>
+            Studying elsewhere?{" "}
+            <a href={courseAnkiHref(course)} download>
+              Download the deck for Anki
+            </a>{" "}
+            and import it with File › Import; importing a newer copy updates
+            the cards you already have.
+          </p>
+        </footer>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import type { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import Breadcrumbs from "../../../../../_components/Breadcrumbs";
+import PrevNext from "../../../../../_components/PrevNext";
+import StandardFilter from "../../../../../_components/StandardFilter";
+import SubtopicSection from "../../../../../_components/SubtopicSection";
+import { stripMarkdown } from "../../../../../_content/markdown";
+import {
+  courseHref,
+  findRedirect,
+  findSubtopic,
+  getAllRedirects,
+  getAllSubtopicEntries,
+  getNeighbors,
+  getSubtopicEntries,
+  progressKey,
+  topicHref,
+} from "../../../../../_content/navigation";
+import styles from "../../../../../page.module.css";
+
+type SubtopicPageProps = {
+  params: Promise<{ course: string; topic: string; subtopic: string }>;
+};
+
+export const dynamicParams = false;
+
+/** Old slugs from `redirects.yaml` are built too, as redirects. */
+export function generateStaticParams() {
+  return [
+    ...getAllSubtopicEntries().map((entry) => ({
+      course: entry.course.slug,
+      topic: entry.topicSlug,
+      subtopic: entry.slug,
+    })),
+    ...getAllRedirects().flatMap((redirect) =>
+      redirect.slug === undefined
+        ? []
+        : [
+            {
+              course: redirect.course.slug,
+              topic: redirect.topicSlug,
+              subtopic: redirect.slug,
+            },
+          ],
+    ),
+  ];
+}
+
+export async function generateMetadata({
+  params,
+}: SubtopicPageProps): Promise<Metadata> {
+  const { course, topic, subtopic } = await params;
+  const entry = findSubtopic(course, topic, subtopic);
+  return entry
+    ? {
+        title: `${entry.subtopic.title} — ${entry.course.metadata.title}`,
+        description: stripMarkdown(entry.subtopic.summary),
+      }
+    : {};
+}
+
+export default async function SubtopicPage({ params }: SubtopicPageProps) {
+  const { course: courseSlug, topic: topicSlug, subtopic: slug } = await params;
+  const entry = findSubtopic(courseSlug, topicSlug, slug);
+  if (!entry) {
+    const redirect = findRedirect(courseSlug, topicSlug, slug);
+    if (redirect) {
+      permanentRedirect(redirect.href);
+    }
+    notFound();
+  }
+
+  const { course, topic, subtopic } = entry;
+  const { previous, next } = getNeighbors(
+    getSubtopicEntries(course),
+    (candidate) => candidate.href === entry.href,
+  );
+
+  return (
+    <div className={styles.page}>
+      <main className={styles.main}>
+        <Breadcrumbs
+          items={[
+            { label: "Courses", href: "/" },
+            { label: course.title, href: courseHref(course) },
+            { label: topic.title, href: topicHref(course, topic) },
+            { label: subtopic.title },
+          ]}
+        />
+
+        <StandardFilter />
+
+        <SubtopicSection
+          course={course}
+          subtopic={subtopic}
+          progressKey={progressKey(course, subtopic)}
+        />
+
+        <PrevNext
+          previous={
+            previous && { label: previous.subtopic.title, href: previous.href }
+          }
+          next={next && { label: next.subtopic.title, href: next.href }}
+        />
+      </main>
+    </div>
+  );
+}
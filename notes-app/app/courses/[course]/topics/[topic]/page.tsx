@@ -0,0 +1,128 @@
+import type { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import Breadcrumbs from "../../../../_components/Breadcrumbs";
+import CopyLink from "../../../../_components/CopyLink";
+import InlineText from "../../../../_components/InlineText";
+import PrevNext from "../../../../_components/PrevNext";
+import StandardFilter from "../../../../_components/StandardFilter";
+import SubtopicSection from "../../../../_components/SubtopicSection";
+import { stripMarkdown } from "../../../../_content/markdown";
+import {
+  courseHref,
+  findRedirect,
+  findTopic,
+  getAllRedirects,
+  getAllTopicEntries,
+  getNeighbors,
+  getTopicEntries,
+  progressKey,
+  subtopicHref,
+  topicDownloadHref,
+} from "../../../../_content/navigation";
+import styles from "../../../../page.module.css";
+
+type TopicPageProps = {
+  params: Promise<{ course: string; topic: string }>;
+};
+
+export const dynamicParams = false;
+
+/** Old slugs from `redirects.yaml` are built too, as redirects. */
+export function generateStaticParams() {
+  return [
+    ...getAllTopicEntries().map((entry) => ({
+      course: entry.course.slug,
+      topic: entry.slug,
+    })),
+    ...getAllRedirects()
+      .filter((redirect) => redirect.slug === undefined)
+      .map((redirect) => ({
+        course: redirect.course.slug,
+        topic: redirect.topicSlug,
+      })),
+  ];
+}
+
+export async function generateMetadata({
+  params,
+}: TopicPageProps): Promise<Metadata> {
+  const { course, topic } = await params;
+  const entry = findTopic(course, topic);
+  return entry
+    ? {
+        title: `${entry.topic.title} — ${entry.course.metadata.title}`,
+        description: stripMarkdown(entry.topic.summary),
+      }
+    : {};
+}
+
+export default async function TopicPage({ params }: TopicPageProps) {
+  const { course: courseSlug, topic: slug } = await params;
+  const entry = findTopic(courseSlug, slug);
+  if (!entry) {
+    const redirect = findRedirect(courseSlug, slug);
+    if (redirect) {
+      permanentRedirect(redirect.href);
+    }
+    notFound();
+  }
+
+  const { course, topic } = entry;
+  const { previous, next } = getNeighbors(
+    getTopicEntries(course),
+    (candidate) => candidate.slug === slug,
+  );
+
+  return (
+    <div className={styles.page}>
+      <main className={styles.main}>
+        <Breadcrumbs
+          items={[
+            { label: "Courses", href: "/" },
+            { label: course.title, href: courseHref(course) },
+            { label: topic.title },
+          ]}
+        />
+
+        <StandardFilter />
+
+        <article className={styles.topic}>
+          <h2 id={topic.id}>
+            {topic.title}
+            <CopyLink id={topic.id} label={topic.title} />
+          </h2>
+          <p className={styles.topicSummary}>
+            <InlineText text={topic.summary} />
+          </p>
+          {topic.subtopics.some((subtopic) => subtopic.code) && (
+            <p>
+              <a href={topicDownloadHref(course, topic)} download>
+                Download this topic&apos;s samples
+              </a>{" "}
+              (.tar.gz with a Makefile)
+            </p>
+          )}
+
+          <div className={styles.subtopics}>
+            {topic.subtopics.map((subtopic) => (
+              <SubtopicSection
+                key={subtopic.title}
+                course={course}
+                subtopic={subtopic}
+                progressKey={progressKey(course, subtopic)}
+                href={subtopicHref(course, topic, subtopic)}
+              />
+            ))}
+          </div>
+        </article>
+
+        <PrevNext
+          previous={
+            previous && { label: previous.topic.title, href: previous.href }
+          }
+          next={next && { label: next.topic.title, href: next.href }}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import Breadcrumbs from "../_components/Breadcrumbs";
+import CopyLink from "../_components/CopyLink";
+import { getGlossary, linkTerms } from "../_content/glossary";
+import {
+  getAllSubtopicEntries,
+  getAllTopicEntries,
+} from "../_content/navigation";
+import type { GlossaryTerm } from "../_content/types";
+import styles from "../page.module.css";
+
+export const metadata: Metadata = {
+  title: "Glossary — C Programming Notes",
+  description:
+    "Definitions of the terms used throughout the C programming notes, from array decay to variable length arrays.",
+};
+
+type Usage = {
+  label: string;
+  href: string;
+};
+
+/** Where each term is linked from, in reading order. */
+const findUsages = (terms: GlossaryTerm[]) => {
+  const usages = new Map<GlossaryTerm, Usage[]>();
+  const record = (texts: string[], usage: Usage) => {
+    const found = new Set(
+      texts.flatMap((text) =>
+        linkTerms(text, terms).flatMap((segment) => segment.term ?? []),
+      ),
+    );
+    for (const term of found) {
+      usages.set(term, [...(usages.get(term) ?? []), usage]);
+    }
+  };
+  for (const { topic, href } of getAllTopicEntries()) {
+    record([topic.summary], { label: topic.title, href });
+  }
+  for (const { subtopic, href } of getAllSubtopicEntries()) {
+    record(
+      [subtopic.summary, ...(subtopic.notes ?? []).map((note) => note.text)],
+      { label: subtopic.title, href },
+    );
+  }
+  return usages;
+};
+
+export default function GlossaryPage() {
+  const terms = getGlossary();
+  const usages = findUsages(terms);
+
+  return (
+    <div className={styles.page}>
+      <main className={styles.main}>
+        <Breadcrumbs
+          items={[{ label: "Courses", href: "/" }, { label: "Glossary" }]}
+        />
+
+        <header className={styles.hero}>
+          <p className={styles.kicker}>C Programming Notes</p>
+          <h1>Glossary</h1>
+          <p className={styles.lede}>
+            Terms that come up throughout the notes. Wherever they appear in a
+            summary or note, they link back here.
+          </p>
+        </header>
+
+        <section className={styles.topics}>
+          {terms.map((term) => (
+            <article key={term.slug} className={styles.topic}>
+              <h2 id={term.slug}>
+                {term.term}
+                <CopyLink id={term.slug} label={term.term} />
+              </h2>
+              {term.aliases.length > 0 && (
+                <p className={styles.topicSummary}>
+                  Also: {term.aliases.join(", ")}
+                </p>
+              )}
+              <p>{term.definition}</p>
+              {usages.has(term) && (
+                <ul className={styles.subtopics}>
+                  {usages.get(term)?.map((usage) => (
+                    <li key={usage.href}>
+                      <Link href={usage.href}>{usage.label}</Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </article>
+          ))}
+        </section>
+      </main>
+    </div>
+  );
+}
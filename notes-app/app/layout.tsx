@@ -12,10 +12,11 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// Course pages generate their own metadata from `course.yaml`.
 export const metadata: Metadata = {
-  title: "C Arrays Deep Dive",
+  title: "C Programming Notes",
   description:
-    "In-depth, example-rich reference notes covering declaration, initialization, memory layout, operations, multi-dimensional arrays, dynamic techniques, and best practices for arrays in C.",
+    "In-depth, example-rich reference notes on core C constructs, organized into courses.",
 };
 
 export default function RootLayout({
@@ -1,7 +1,16 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async redirects() {
+    return [
+      // Topic routes from before the site had more than one course.
+      {
+        source: "/topics/:path*",
+        destination: "/courses/arrays/topics/:path*",
+        permanent: true,
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,50 @@
+/**
+ * Writes each course in `content/courses` to `exports/` as a PDF and an
+ * EPUB, built from the same book as the print layout at `/courses/<slug>/print`.
+ *
+ *   npx tsx scripts/export-course.ts [course]
+ *
+ * Pass a course's slug, e.g. "arrays", to export only that one.
+ */
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { loadCourses } from "../app/_content/courses";
+import { createBook } from "../app/_export/book";
+import { createEpub } from "../app/_export/epub";
+import { createPdf } from "../app/_export/pdf";
+
+const EXPORT_DIR = path.join(process.cwd(), "exports");
+
+function main() {
+  const slug = process.argv[2];
+  const courses = loadCourses().filter(
+    (course) => !slug || course.slug === slug,
+  );
+  if (courses.length === 0) {
+    console.log(`✗ No course named "${slug}".`);
+    process.exitCode = 1;
+    return;
+  }
+
+  mkdirSync(EXPORT_DIR, { recursive: true });
+  const now = new Date();
+  for (const course of courses) {
+    const book = createBook(course);
+    const files: [string, Buffer][] = [
+      [`${course.slug}.pdf`, createPdf(book, now)],
+      [
+        `${course.slug}.epub`,
+        createEpub(book, {
+          identifier: `urn:c-programming-notes:${course.slug}`,
+          modified: now,
+        }),
+      ],
+    ];
+    for (const [name, data] of files) {
+      writeFileSync(path.join(EXPORT_DIR, name), data);
+      console.log(`✓ exports/${name} (${Math.ceil(data.length / 1024)} KiB)`);
+    }
+  }
+}
+
+main();
@@ -0,0 +1,186 @@
+/**
+ * Records a sample's trace by inserting its probes into the source, running
+ * it, and reading the values the probes print. Shared by
+ * `trace-samples.ts`, which writes the steps into the content, and
+ * `verify-samples.ts`, which checks that the recorded steps still match.
+ */
+import { spawnSync } from "node:child_process";
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import { MAX_TRACE_STEPS } from "../app/_content/traces";
+import type { TraceProbe, TraceStep } from "../app/_content/types";
+
+const RUN_TIMEOUT_MS = 5_000;
+
+export type TraceTarget = {
+  content: string;
+  probes: TraceProbe[];
+  /** The sample's `verify.flags`, which may be needed for it to compile. */
+  flags?: string[];
+};
+
+/** Separates records from anything the sample itself writes to stderr. */
+const RECORD = "\x1e";
+
+/**
+ * Probes print through `fprintf(stderr, ...)` with a format picked by
+ * `_Generic`, so authors name expressions without spelling out their types.
+ * `#line 1` keeps diagnostics pointing at the sample's own line numbers.
+ */
+const PRELUDE = String.raw`#include <stdio.h>
+#define TRACE_FORMAT_(x) _Generic((x), \
+    _Bool: "%d", char: "'%c'", signed char: "%hhd", unsigned char: "%hhu", \
+    short: "%hd", unsigned short: "%hu", int: "%d", unsigned: "%u", \
+    long: "%ld", unsigned long: "%lu", long long: "%lld", \
+    unsigned long long: "%llu", float: "%g", double: "%g", \
+    long double: "%Lg", char *: "\"%s\"", const char *: "\"%s\"", \
+    default: "%p")
+#define TRACE_RECORD_(kind, name) fprintf(stderr, "\036%s\t%s\t", kind, name)
+#define TRACE_VALUE_(kind, name, x) \
+    (TRACE_RECORD_(kind, name), fprintf(stderr, TRACE_FORMAT_(x), (x)), \
+     fputc('\n', stderr))
+#line 1
+`;
+
+const literal = (text: string) => JSON.stringify(text);
+
+const probeStatements = (probe: TraceProbe) => {
+  const statements = [`TRACE_RECORD_("step", ${literal(String(probe.line))});`];
+  for (const value of probe.values ?? []) {
+    statements.push(`TRACE_VALUE_("value", ${literal(value)}, ${value});`);
+  }
+  for (const [array, length] of Object.entries(probe.arrays ?? {})) {
+    statements.push(
+      `TRACE_RECORD_("array", ${literal(array)});`,
+      `for (size_t trace_i_ = 0; trace_i_ < (size_t)(${length}); ++trace_i_) ` +
+        `TRACE_VALUE_("element", ${literal(array)}, (${array})[trace_i_]);`,
+    );
+  }
+  // The probe shares the line it precedes so line numbers stay intact.
+  return `{ ${statements.join(" ")} } `;
+};
+
+/** An `if` or loop header that ends its line, or a bare `else` or `do`. */
+const CONTROL_HEADER =
+  /^\s*(?:\}\s*)?(?:(?:else\s+)?if|for|while)\s*\(.*\)\s*$|^\s*(?:\}\s*)?(?:else|do)\s*$/;
+
+/** A statement that ends on its line, and any comment after it. */
+const ONE_LINE_STATEMENT = /^(.*;)(\s*(?:\/\/.*|\/\*.*\*\/)?)$/;
+
+const isComment = (line: string) => /^\s*(?:\/\/|\/\*|\*)/.test(line);
+
+/** Whether the line at `index` is the unbraced body of the code before it. */
+const isUnbracedBody = (lines: string[], index: number) => {
+  const before = lines
+    .slice(0, index)
+    .reverse()
+    .find((line) => line.trim() !== "" && !isComment(line));
+  return (
+    before !== undefined && CONTROL_HEADER.test(before.replace(/\/\/.*/, ""))
+  );
+};
+
+/**
+ * Inserts each probe at the start of its line. A probe in front of an
+ * unbraced body would become the body itself, so the two are braced together.
+ */
+export function instrument({ content, probes }: TraceTarget): string {
+  const byLine = new Map(probes.map((probe) => [probe.line, probe]));
+  const lines = content.split("\n");
+  const instrumented = lines.map((line, index) => {
+    const probe = byLine.get(index + 1);
+    if (!probe) {
+      return line;
+    }
+    const indent = line.match(/^\s*/)?.[0] ?? "";
+    const code = line.slice(indent.length);
+    if (!isUnbracedBody(lines, index)) {
+      return `${indent}${probeStatements(probe)}${code}`;
+    }
+    const statement = code.match(ONE_LINE_STATEMENT);
+    if (!statement || CONTROL_HEADER.test(code)) {
+      throw new Error(
+        `line ${probe.line} is an unbraced body that continues past its line; add braces to probe it`,
+      );
+    }
+    return `${indent}{ ${probeStatements(probe)}${statement[1]} }${statement[2]}`;
+  });
+  return `${PRELUDE}${instrumented.join("\n")}\n`;
+}
+
+const parseRecords = (stderr: string): TraceStep[] => {
+  const steps: TraceStep[] = [];
+  for (const record of stderr.split(RECORD).slice(1)) {
+    // Anything after the first newline is the sample's own stderr output.
+    const [kind, name, value = ""] = record.split("\n")[0].split("\t");
+    const step = steps.at(-1);
+    if (kind === "step") {
+      steps.push({ line: Number(name) });
+    } else if (kind === "value" && step) {
+      step.values = { ...step.values, [name]: value };
+    } else if (kind === "array" && step) {
+      step.arrays = { ...step.arrays, [name]: [] };
+    } else if (kind === "element" && step?.arrays?.[name]) {
+      step.arrays[name].push(value);
+    }
+  }
+  return steps;
+};
+
+/** Compiles and runs the instrumented sample in `workdir`. */
+export function recordTrace(
+  target: TraceTarget,
+  workdir: string,
+  compiler: string,
+): { steps: TraceStep[] } | { failure: string } {
+  const source = path.join(workdir, "traced.c");
+  const binary = path.join(workdir, "traced");
+  try {
+    writeFileSync(source, instrument(target));
+  } catch (error) {
+    return { failure: (error as Error).message };
+  }
+
+  // Probes are not held to the sample's warning flags.
+  const flags = ["-std=c11", "-O0", "-w", ...(target.flags ?? [])];
+  const compiled = spawnSync(compiler, [...flags, source, "-o", binary], {
+    encoding: "utf8",
+  });
+  if (compiled.error) {
+    return { failure: `could not run ${compiler}: ${compiled.error.message}` };
+  }
+  if (compiled.status !== 0) {
+    return {
+      failure: `instrumented sample failed to compile:\n${compiled.stderr}`,
+    };
+  }
+
+  const ran = spawnSync(binary, [], {
+    encoding: "utf8",
+    timeout: RUN_TIMEOUT_MS,
+  });
+  if (ran.error || ran.status !== 0) {
+    const reason =
+      ran.error?.message ?? `exit status ${ran.status ?? ran.signal}`;
+    return { failure: `instrumented sample failed (${reason})` };
+  }
+  const steps = parseRecords(ran.stderr);
+  if (steps.length === 0) {
+    return { failure: "no probe was reached" };
+  }
+  if (steps.length > MAX_TRACE_STEPS) {
+    return {
+      failure: `the run reached probes ${steps.length} times; traces are limited to ${MAX_TRACE_STEPS} steps`,
+    };
+  }
+  return { steps };
+}
+
+/** Pointer values change between runs, so they are compared as placeholders. */
+const comparable = (steps: TraceStep[]) =>
+  JSON.stringify(
+    steps.map(({ line, values, arrays }) => ({ line, values, arrays })),
+  ).replace(/0x[0-9a-f]+/gi, "<address>");
+
+export const sameSteps = (a: TraceStep[], b: TraceStep[]) =>
+  comparable(a) === comparable(b);
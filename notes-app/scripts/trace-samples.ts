@@ -0,0 +1,111 @@
+/**
+ * Records the `trace.steps` of every sample that declares `trace.probes`, by
+ * running an instrumented copy of the sample, and writes them back into its
+ * content file.
+ *
+ *   npx tsx scripts/trace-samples.ts [filter]
+ *
+ * Run it after editing a traced sample or its probes; `verify-samples.ts`
+ * fails while the recorded steps are out of date.
+ */
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { isSeq, parseDocument, visit } from "yaml";
+import { parseProbes } from "../app/_content/traces";
+import { isRecord, relative } from "../app/_content/validate";
+import { recordTrace } from "./instrument";
+
+const COMPILER = process.env.CC ?? "cc";
+const CONTENT_DIR = path.join(process.cwd(), "content", "courses");
+
+const subtopicFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return subtopicFiles(file);
+    }
+    return entry.name.endsWith(".yaml") &&
+      !["course.yaml", "topic.yaml"].includes(entry.name)
+      ? [file]
+      : [];
+  });
+
+function main() {
+  const filter = process.argv[2]?.toLowerCase();
+  const workdir = mkdtempSync(path.join(os.tmpdir(), "trace-samples-"));
+  let failed = 0;
+
+  try {
+    for (const file of subtopicFiles(CONTENT_DIR).sort()) {
+      const document = parseDocument(readFileSync(file, "utf8"));
+      const raw: unknown = document.toJS();
+      if (!isRecord(raw) || !Array.isArray(raw.code)) {
+        continue;
+      }
+      let changed = false;
+      raw.code.forEach((sample: unknown, index) => {
+        if (!isRecord(sample) || !isRecord(sample.trace)) {
+          return;
+        }
+        const name = `${raw.title} › ${sample.caption}`;
+        if (filter && !name.toLowerCase().includes(filter)) {
+          return;
+        }
+        const where = `${relative(file)} code[${index}] trace`;
+        const content = String(sample.content).replace(/\n+$/, "");
+        const issues: string[] = [];
+        const probes = parseProbes(sample.trace, content, where, issues);
+        if (!probes || issues.length > 0) {
+          console.log(`✗ ${name}\n    ${issues.join("\n    ") || "no probes"}`);
+          failed += 1;
+          return;
+        }
+
+        const flags = isRecord(sample.verify) ? sample.verify.flags : undefined;
+        const result = recordTrace(
+          {
+            content,
+            probes,
+            flags: Array.isArray(flags) ? flags.map(String) : undefined,
+          },
+          workdir,
+          COMPILER,
+        );
+        if ("failure" in result) {
+          console.log(`✗ ${name}\n${result.failure.replace(/^/gm, "    ")}`);
+          failed += 1;
+          return;
+        }
+
+        // Each array on one line keeps the steps readable in diffs.
+        const steps = document.createNode(result.steps);
+        visit(steps, (_key, node, ancestors) => {
+          if (ancestors.length > 1 && isSeq(node)) {
+            node.flow = true;
+          }
+        });
+        document.setIn(["code", index, "trace", "steps"], steps);
+        changed = true;
+        console.log(`✓ ${name} (${result.steps.length} steps)`);
+      });
+      if (changed) {
+        writeFileSync(
+          file,
+          document.toString({ flowCollectionPadding: false }),
+        );
+      }
+    }
+  } finally {
+    rmSync(workdir, { recursive: true, force: true });
+  }
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,203 @@
+/**
+ * Compiles and runs every C sample in `content/courses` and compares what it
+ * prints with the sample's `expectedOutput`.
+ *
+ *   npx tsx scripts/verify-samples.ts [filter]
+ *
+ * Samples are built with `-std=c11 -Wall -Wextra -Werror -Wvla -O2`; the
+ * optimizer enables warnings such as `-Waggressive-loop-optimizations`. A
+ * sample can opt out of individual checks through its `verify` field. Pointer
+ * values (`0x7ffc...`) are compared as placeholders since they change between
+ * runs. Traces recorded from probes are re-recorded and compared with the
+ * steps in the content.
+ *
+ * Each sample's C standard tag is checked against a `-std=` matrix: it must
+ * compile with `-pedantic-errors` under its standard and every later one, and
+ * fail under the one before, so the tag names the oldest standard that works.
+ * Each variant of a sample is verified as a program of its own.
+ */
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { loadCourses } from "../app/_content/courses";
+import {
+  isValidIn,
+  sampleStandard,
+  STANDARDS,
+  STD_FLAGS,
+} from "../app/_content/standards";
+import type { CodeSample, CStandard } from "../app/_content/types";
+import { expandVariants } from "../app/_content/variants";
+import { recordTrace, sameSteps } from "./instrument";
+
+const COMPILER = process.env.CC ?? "cc";
+const BASE_STANDARD: CStandard = "C11";
+const BASE_FLAGS = ["-Wall", "-Wextra", "-Werror", "-Wvla", "-O2"];
+const RUN_TIMEOUT_MS = 5_000;
+
+type Result = {
+  name: string;
+  failure?: string;
+  note?: string;
+};
+
+/** Trailing whitespace is invisible in YAML, so it never counts. */
+const normalize = (output: string) =>
+  output
+    .replace(/0x[0-9a-f]+/gi, "<address>")
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n+$/, "");
+
+const compilesAs = (standard: CStandard, source: string) =>
+  spawnSync(
+    COMPILER,
+    [STD_FLAGS[standard], "-pedantic-errors", "-fsyntax-only", source],
+    { encoding: "utf8" },
+  );
+
+function checkStandard(
+  standard: CStandard,
+  source: string,
+): string | undefined {
+  for (const later of STANDARDS.filter((each) => isValidIn(standard, each))) {
+    const compiled = compilesAs(later, source);
+    if (compiled.status !== 0) {
+      return `tagged ${standard} but does not compile as ${later}:\n${compiled.stderr}`;
+    }
+  }
+  const earlier = STANDARDS[STANDARDS.indexOf(standard) - 1];
+  if (earlier && compilesAs(earlier, source).status === 0) {
+    return `tagged ${standard} but also compiles as ${earlier}; lower its \`standard\``;
+  }
+  return undefined;
+}
+
+function verify(
+  sample: CodeSample,
+  standard: CStandard,
+  workdir: string,
+): Omit<Result, "name"> {
+  const options = sample.verify;
+  const note = options && `opted out: ${options.reason}`;
+  const source = path.join(workdir, "sample.c");
+  const binary = path.join(
+    workdir,
+    options?.compileOnly ? "sample.o" : "sample",
+  );
+  writeFileSync(source, `${sample.content}\n`);
+
+  const flags = [
+    STD_FLAGS[isValidIn(standard, BASE_STANDARD) ? BASE_STANDARD : standard],
+    ...BASE_FLAGS,
+    ...(options?.flags ?? []),
+  ];
+  if (options?.compileOnly) {
+    flags.push("-c");
+  }
+  const compiled = spawnSync(COMPILER, [...flags, source, "-o", binary], {
+    encoding: "utf8",
+  });
+  if (compiled.error) {
+    return { failure: `could not run ${COMPILER}: ${compiled.error.message}` };
+  }
+  if (compiled.status !== 0) {
+    return { failure: `compilation failed:\n${compiled.stderr}` };
+  }
+  const mislabeled = checkStandard(standard, source);
+  if (mislabeled) {
+    return { failure: mislabeled };
+  }
+  if (options?.compileOnly || options?.skipRun) {
+    return { note };
+  }
+
+  const ran = spawnSync(binary, [], {
+    encoding: "utf8",
+    timeout: RUN_TIMEOUT_MS,
+  });
+  if (ran.error || ran.status !== 0) {
+    const reason =
+      ran.error?.message ?? `exit status ${ran.status ?? ran.signal}`;
+    return { failure: `program failed (${reason}):\n${ran.stderr}` };
+  }
+  if (sample.expectedOutput === undefined) {
+    return {
+      failure: `missing \`expectedOutput\`; the program printed:\n${ran.stdout}`,
+    };
+  }
+  if (normalize(ran.stdout) !== normalize(sample.expectedOutput)) {
+    return {
+      failure:
+        `output differs.\n--- expected\n${sample.expectedOutput}\n` +
+        `--- actual\n${ran.stdout}`,
+    };
+  }
+  if (sample.trace?.probes) {
+    const traced = recordTrace(
+      {
+        content: sample.content,
+        probes: sample.trace.probes,
+        flags: options?.flags,
+      },
+      workdir,
+      COMPILER,
+    );
+    if ("failure" in traced) {
+      return { failure: `trace: ${traced.failure}` };
+    }
+    if (!sameSteps(traced.steps, sample.trace.steps)) {
+      return {
+        failure:
+          "recorded trace is out of date; run `npx tsx scripts/trace-samples.ts`",
+      };
+    }
+  }
+  return { note };
+}
+
+function main() {
+  const filter = process.argv[2]?.toLowerCase();
+  const workdir = mkdtempSync(path.join(os.tmpdir(), "verify-samples-"));
+  const results: Result[] = [];
+
+  try {
+    for (const topic of loadCourses().flatMap((course) => course.topics)) {
+      for (const subtopic of topic.subtopics) {
+        for (const sample of (subtopic.code ?? []).flatMap(expandVariants)) {
+          const name = `${subtopic.title} › ${sample.caption}`;
+          if (
+            sample.language !== "c" ||
+            (filter && !name.toLowerCase().includes(filter))
+          ) {
+            continue;
+          }
+          results.push({
+            name,
+            ...verify(sample, sampleStandard(subtopic, sample), workdir),
+          });
+        }
+      }
+    }
+  } finally {
+    rmSync(workdir, { recursive: true, force: true });
+  }
+
+  for (const result of results) {
+    console.log(`${result.failure ? "✗" : "✓"} ${result.name}`);
+    if (result.note) {
+      console.log(`    ${result.note}`);
+    }
+    if (result.failure) {
+      console.log(result.failure.replace(/^/gm, "    "));
+    }
+  }
+
+  const failed = results.filter((result) => result.failure).length;
+  console.log(
+    `\n${results.length - failed} passed, ${failed} failed (${COMPILER} ${STD_FLAGS[BASE_STANDARD]} ${BASE_FLAGS.join(" ")})`,
+  );
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();